@@ -0,0 +1,156 @@
+import { sha256d } from './merkle.js';
+
+// Bitcoin address encoding and decoding: base58check (BIP13 P2PKH/P2SH) and bech32/bech32m segwit (BIP173/BIP350)
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export interface SegwitAddress {
+  hrp: string;
+  version: number;
+  program: Buffer;
+}
+
+export interface Base58Address {
+  version: number;
+  hash: Buffer;
+}
+
+function polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let bit = 0; bit < 5; bit++) {
+      if ((top >>> bit) & 1) {
+        checksum ^= generators[bit];
+      }
+    }
+  }
+  return checksum >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const codes = [...hrp].map(char => char.charCodeAt(0));
+  return [...codes.map(code => code >> 5), 0, ...codes.map(code => code & 31)];
+}
+
+// Regroups 5-bit words into bytes, rejecting non-zero or oversized padding
+function fromWords(words: number[]): Buffer | undefined {
+  let accumulator = 0;
+  let bits = 0;
+  const bytes: number[] = [];
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || ((accumulator << (8 - bits)) & 0xff) !== 0) {
+    return undefined;
+  }
+  return Buffer.from(bytes);
+}
+
+function toWords(bytes: Buffer): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const words: number[] = [];
+  for (const byte of bytes) {
+    accumulator = ((accumulator << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      words.push((accumulator >> bits) & 31);
+    }
+  }
+  if (bits > 0) {
+    words.push((accumulator << (5 - bits)) & 31);
+  }
+  return words;
+}
+
+export function encodeSegwitAddress(hrp: string, version: number, program: Buffer): string {
+  const data = [version, ...toWords(program)];
+  const checksum = polymod([...hrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^ (version === 0 ? BECH32_CONST : BECH32M_CONST);
+  const checksumWords = [25, 20, 15, 10, 5, 0].map(shift => (checksum >>> shift) & 31);
+  return `${hrp}1${[...data, ...checksumWords].map(word => BECH32_CHARSET[word]).join('')}`;
+}
+
+export function decodeSegwitAddress(address: string): SegwitAddress | undefined {
+  if (address.length > 90 || (address !== address.toLowerCase() && address !== address.toUpperCase())) {
+    return undefined;
+  }
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    return undefined;
+  }
+
+  const hrp = lower.slice(0, separator);
+  const data = [...lower.slice(separator + 1)].map(char => BECH32_CHARSET.indexOf(char));
+  if (data.some(value => value < 0)) {
+    return undefined;
+  }
+
+  const checksum = polymod([...hrpExpand(hrp), ...data]);
+  const version = data[0];
+  // Version 0 uses bech32, later versions bech32m
+  if (checksum !== (version === 0 ? BECH32_CONST : BECH32M_CONST) || version > 16) {
+    return undefined;
+  }
+
+  const program = fromWords(data.slice(1, -6));
+  if (!program || program.length < 2 || program.length > 40) {
+    return undefined;
+  }
+  if (version === 0 && program.length !== 20 && program.length !== 32) {
+    return undefined;
+  }
+  return { hrp, version, program };
+}
+
+export function decodeBase58Address(address: string): Base58Address | undefined {
+  let value = 0n;
+  for (const char of address) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      return undefined;
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  const hex = value.toString(16);
+  const body = value === 0n ? Buffer.alloc(0) : Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+  // Each leading '1' is a leading zero byte
+  const zeros = address.length - address.replace(/^1+/, '').length;
+  const bytes = Buffer.concat([Buffer.alloc(zeros), body]);
+
+  if (bytes.length !== 25) {
+    return undefined;
+  }
+  const payload = bytes.subarray(0, 21);
+  if (!sha256d(payload).subarray(0, 4).equals(bytes.subarray(21))) {
+    return undefined;
+  }
+  return { version: payload[0], hash: payload.subarray(1) };
+}
+
+export function encodeBase58Address(version: number, hash: Buffer): string {
+  const payload = Buffer.concat([Buffer.from([version]), hash]);
+  const bytes = Buffer.concat([payload, sha256d(payload).subarray(0, 4)]);
+  let value = BigInt(`0x${bytes.toString('hex')}`);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  // Each leading zero byte is a leading '1'
+  const zeros = bytes.length - bytes.toString('hex').replace(/^(00)+/, '').length / 2;
+  return '1'.repeat(zeros) + encoded;
+}
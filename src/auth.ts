@@ -0,0 +1,421 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import type { NextFunction, Request, Response } from 'express';
+import { StateMap, StateStore } from './store.js';
+
+export const SCOPES = ['proof', 'tx:read', 'tx:broadcast', 'fees', 'admin'] as const;
+export type Scope = typeof SCOPES[number];
+
+// Routes are rate limited per key and per group
+export const QUOTA_GROUPS = ['kenny', 'proof', 'batch', 'status', 'tx', 'broadcast', 'fees', 'admin'] as const;
+export type QuotaGroup = typeof QUOTA_GROUPS[number];
+
+export interface Quota {
+  // Requests per window; 0 or less means unlimited
+  limit: number;
+  windowMs: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const DEFAULT_QUOTAS: Record<QuotaGroup, Quota> = {
+  kenny: { limit: 5, windowMs: HOUR },
+  proof: { limit: 120, windowMs: MINUTE },
+  batch: { limit: 10, windowMs: MINUTE },
+  status: { limit: 600, windowMs: MINUTE },
+  tx: { limit: 300, windowMs: MINUTE },
+  broadcast: { limit: 30, windowMs: MINUTE },
+  fees: { limit: 60, windowMs: MINUTE },
+  admin: { limit: 60, windowMs: MINUTE }
+};
+
+export interface ApiKeySecret {
+  // sha256 of the key; keys themselves are never stored
+  hash: string;
+  createdAt: number;
+  // Set on the old secret when the key is rotated, so both work during the overlap
+  expiresAt?: number;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: Scope[];
+  // Overrides of the default quota per group
+  quotas?: Partial<Record<QuotaGroup, Quota>>;
+  // env and file keys are fixed by configuration; store keys can be rotated and revoked
+  source: 'env' | 'file' | 'store';
+  createdAt: number;
+  revokedAt?: number;
+  secrets: ApiKeySecret[];
+}
+
+export interface AuthConfig {
+  // Legacy single key, registered as "default" with every scope
+  legacyKey?: string;
+  keysFile?: string;
+  defaultQuotas: Record<QuotaGroup, Quota>;
+  rotationOverlapMs: number;
+  usageRetentionDays: number;
+}
+
+// RATE_LIMITS overrides default quotas as "group=limit/seconds", e.g. "kenny=10/3600,proof=300/60"
+function parseRateLimits(value: string | undefined): Partial<Record<QuotaGroup, Quota>> {
+  const quotas: Partial<Record<QuotaGroup, Quota>> = {};
+  for (const entry of (value || '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const match = entry.match(/^([a-z]+)=(-?\d+)\/(\d+)$/);
+    if (!match || !QUOTA_GROUPS.includes(match[1] as QuotaGroup)) {
+      throw new Error(`Invalid RATE_LIMITS entry "${entry}", expected <group>=<limit>/<seconds> with group one of: ${QUOTA_GROUPS.join(', ')}`);
+    }
+    quotas[match[1] as QuotaGroup] = { limit: Number(match[2]), windowMs: Number(match[3]) * 1000 };
+  }
+  return quotas;
+}
+
+export function getAuthConfig(): AuthConfig {
+  return {
+    legacyKey: process.env.API_KEY || undefined,
+    keysFile: process.env.API_KEYS_FILE || undefined,
+    defaultQuotas: { ...DEFAULT_QUOTAS, ...parseRateLimits(process.env.RATE_LIMITS) },
+    rotationOverlapMs: Number(process.env.API_KEY_ROTATION_OVERLAP_MS || DAY),
+    usageRetentionDays: Number(process.env.API_USAGE_RETENTION_DAYS || 30)
+  };
+}
+
+export function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function generateKey(): string {
+  return `sk_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+export function parseScopes(value: unknown): Scope[] | undefined {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(scope => SCOPES.includes(scope))) {
+    return undefined;
+  }
+  return [...new Set(value as Scope[])];
+}
+
+export function parseQuotas(value: unknown): Partial<Record<QuotaGroup, Quota>> | undefined {
+  if (value === undefined) {
+    return {};
+  }
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const quotas: Partial<Record<QuotaGroup, Quota>> = {};
+  for (const [group, quota] of Object.entries(value as Record<string, any>)) {
+    if (!QUOTA_GROUPS.includes(group as QuotaGroup)
+      || !Number.isInteger(quota?.limit)
+      || !Number.isInteger(quota?.windowMs) || quota.windowMs <= 0) {
+      return undefined;
+    }
+    quotas[group as QuotaGroup] = { limit: quota.limit, windowMs: quota.windowMs };
+  }
+  return quotas;
+}
+
+// Key without its secret hashes, for listing
+export function publicKey({ secrets, ...key }: ApiKey) {
+  return {
+    ...key,
+    secrets: secrets.map(({ createdAt, expiresAt }) => ({ createdAt, expiresAt }))
+  };
+}
+
+interface KeyFileEntry {
+  id?: string;
+  name: string;
+  key?: string;
+  keyHash?: string;
+  scopes: Scope[];
+  quotas?: Partial<Record<QuotaGroup, Quota>>;
+}
+
+// API keys from three sources: the legacy API_KEY, an API_KEYS_FILE of fixed keys,
+// and keys created through the admin endpoints, kept in the state store
+export class KeyRegistry {
+  private readonly fixed = new Map<string, ApiKey>();
+  private readonly fixedByHash = new Map<string, ApiKey>();
+  private readonly keys: StateMap<ApiKey>;
+  private readonly hashes: StateMap<string>;
+
+  constructor(store: StateStore, private readonly config: AuthConfig) {
+    this.keys = new StateMap<ApiKey>(store, 'api-keys');
+    this.hashes = new StateMap<string>(store, 'api-key-hashes');
+
+    if (config.legacyKey) {
+      this.addFixed({ id: 'default', name: 'default', key: config.legacyKey, scopes: [...SCOPES] }, 'env');
+    }
+    if (config.keysFile) {
+      const entries = JSON.parse(fs.readFileSync(config.keysFile, 'utf8')) as KeyFileEntry[];
+      for (const entry of entries) {
+        this.addFixed(entry, 'file');
+      }
+    }
+  }
+
+  private addFixed(entry: KeyFileEntry, source: 'env' | 'file') {
+    const hash = entry.keyHash ?? (entry.key ? hashKey(entry.key) : undefined);
+    const scopes = parseScopes(entry.scopes);
+    const quotas = parseQuotas(entry.quotas);
+    if (!entry.name || !hash || !scopes || !quotas) {
+      throw new Error(`Invalid API key entry "${entry.name}": needs a name, a key or keyHash, scopes from ${SCOPES.join(', ')} and valid quotas`);
+    }
+    const key: ApiKey = {
+      id: entry.id ?? entry.name,
+      name: entry.name,
+      scopes,
+      quotas,
+      source,
+      createdAt: 0,
+      secrets: [{ hash, createdAt: 0 }]
+    };
+    this.fixed.set(key.id, key);
+    this.fixedByHash.set(hash, key);
+  }
+
+  async count(): Promise<number> {
+    return this.fixed.size + (await this.keys.keys()).length;
+  }
+
+  // The key a request presented, if it is known, not revoked and not past its rotation overlap
+  async resolve(presented: string): Promise<ApiKey | undefined> {
+    const hash = hashKey(presented);
+    const fixed = this.fixedByHash.get(hash);
+    if (fixed) {
+      return fixed;
+    }
+
+    const id = await this.hashes.get(hash);
+    const key = id ? await this.keys.get(id) : undefined;
+    const secret = key?.secrets.find(item => item.hash === hash);
+    if (!key || !secret || key.revokedAt || (secret.expiresAt && secret.expiresAt <= Date.now())) {
+      return undefined;
+    }
+    return key;
+  }
+
+  async get(id: string): Promise<ApiKey | undefined> {
+    return this.fixed.get(id) ?? this.keys.get(id);
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const ids = await this.keys.keys();
+    const stored = await Promise.all(ids.map(id => this.keys.get(id)));
+    return [
+      ...this.fixed.values(),
+      ...stored.filter((key): key is ApiKey => key !== undefined).sort((a, b) => a.createdAt - b.createdAt)
+    ];
+  }
+
+  // Returns the new key, which is only ever shown once
+  async create(name: string, scopes: Scope[], quotas: Partial<Record<QuotaGroup, Quota>> = {}): Promise<{ key: string; record: ApiKey }> {
+    const key = generateKey();
+    const now = Date.now();
+    const record: ApiKey = {
+      id: `key-${crypto.randomBytes(6).toString('hex')}`,
+      name,
+      scopes,
+      quotas,
+      source: 'store',
+      createdAt: now,
+      secrets: [{ hash: hashKey(key), createdAt: now }]
+    };
+    await this.keys.set(record.id, record);
+    await this.hashes.set(record.secrets[0].hash, record.id);
+    console.log(`🔑 [AUTH] Created API key ${record.id} (${name}) with scopes ${scopes.join(', ')}`);
+    return { key, record };
+  }
+
+  // Issues a new secret for the key; current secrets keep working for overlapMs.
+  // The key id, scopes, quotas and usage history carry over.
+  async rotate(id: string, overlapMs = this.config.rotationOverlapMs): Promise<{ key: string; record: ApiKey }> {
+    const record = await this.mutable(id);
+    const key = generateKey();
+    const now = Date.now();
+
+    const expiresAt = now + Math.max(overlapMs, 0);
+    const secrets = record.secrets
+      .filter(secret => !secret.expiresAt || secret.expiresAt > now)
+      .map(secret => ({ ...secret, expiresAt: Math.min(secret.expiresAt ?? expiresAt, expiresAt) }));
+    for (const secret of record.secrets.filter(item => !secrets.some(kept => kept.hash === item.hash))) {
+      await this.hashes.delete(secret.hash);
+    }
+
+    record.secrets = [...secrets, { hash: hashKey(key), createdAt: now }];
+    await this.keys.set(id, record);
+    await this.hashes.set(hashKey(key), id);
+    console.log(`🔄 [AUTH] Rotated API key ${id}, previous secret valid until ${new Date(expiresAt).toISOString()}`);
+    return { key, record };
+  }
+
+  async revoke(id: string): Promise<ApiKey> {
+    const record = await this.mutable(id);
+    record.revokedAt = Date.now();
+    await this.keys.set(id, record);
+    for (const secret of record.secrets) {
+      await this.hashes.delete(secret.hash);
+    }
+    console.log(`🗑️ [AUTH] Revoked API key ${id}`);
+    return record;
+  }
+
+  private async mutable(id: string): Promise<ApiKey> {
+    if (this.fixed.has(id)) {
+      throw new KeyRegistryError(409, `Key "${id}" comes from ${this.fixed.get(id)!.source === 'env' ? 'API_KEY' : 'API_KEYS_FILE'} and can only be changed there`);
+    }
+    const record = await this.keys.get(id);
+    if (!record || record.revokedAt) {
+      throw new KeyRegistryError(404, `Key "${id}" not found`);
+    }
+    return record;
+  }
+}
+
+export class KeyRegistryError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'KeyRegistryError';
+  }
+}
+
+export interface QuotaState {
+  group: QuotaGroup;
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  windowMs: number;
+}
+
+export interface UsageDay {
+  date: string;
+  groups: Partial<Record<QuotaGroup, { requests: number; rejected: number }>>;
+}
+
+// Per-key quotas and daily usage counters, both in the state store so they hold across workers
+export class RateLimiter {
+  constructor(
+    private readonly store: StateStore,
+    private readonly config: AuthConfig
+  ) {}
+
+  quotaFor(key: ApiKey, group: QuotaGroup): Quota {
+    return key.quotas?.[group] ?? this.config.defaultQuotas[group];
+  }
+
+  async consume(key: ApiKey, group: QuotaGroup): Promise<QuotaState> {
+    const quota = this.quotaFor(key, group);
+    let state: QuotaState = { group, allowed: true, limit: quota.limit, remaining: Infinity, resetAt: 0, windowMs: quota.windowMs };
+    if (quota.limit > 0) {
+      const usage = await this.store.increment('rate', `${key.id}:${group}`, quota.windowMs);
+      state = {
+        ...state,
+        allowed: usage.count <= quota.limit,
+        remaining: Math.max(quota.limit - usage.count, 0),
+        resetAt: usage.resetAt
+      };
+    }
+    await this.record(key.id, group, state.allowed);
+    return state;
+  }
+
+  private async record(id: string, group: QuotaGroup, allowed: boolean) {
+    const date = new Date().toISOString().slice(0, 10);
+    const retentionMs = this.config.usageRetentionDays * DAY;
+    await this.store.increment('api-usage', `${id}:${date}:${group}:${allowed ? 'requests' : 'rejected'}`, retentionMs);
+  }
+
+  async usage(id: string, days: number): Promise<UsageDay[]> {
+    const result: UsageDay[] = [];
+    for (let offset = 0; offset < days; offset++) {
+      const date = new Date(Date.now() - offset * DAY).toISOString().slice(0, 10);
+      const groups: UsageDay['groups'] = {};
+      for (const group of QUOTA_GROUPS) {
+        const [requests, rejected] = await Promise.all([
+          this.store.get<number>('api-usage', `${id}:${date}:${group}:requests`),
+          this.store.get<number>('api-usage', `${id}:${date}:${group}:rejected`)
+        ]);
+        if (requests || rejected) {
+          groups[group] = { requests: requests ?? 0, rejected: rejected ?? 0 };
+        }
+      }
+      result.push({ date, groups });
+    }
+    return result;
+  }
+}
+
+// Standard RateLimit-* headers (IETF draft), plus Retry-After on a 429
+export function setRateLimitHeaders(res: Response, state: QuotaState) {
+  if (state.limit <= 0) {
+    return;
+  }
+  const resetSeconds = Math.max(Math.ceil((state.resetAt - Date.now()) / 1000), 0);
+  res.set('RateLimit-Limit', String(state.limit));
+  res.set('RateLimit-Remaining', String(state.remaining));
+  res.set('RateLimit-Reset', String(resetSeconds));
+  res.set('RateLimit-Policy', `${state.limit};w=${Math.round(state.windowMs / 1000)}`);
+  if (!state.allowed) {
+    res.set('Retry-After', String(resetSeconds));
+  }
+}
+
+// The key resolved by authenticate, for the route middleware and handlers
+export function requestKey(res: Response): ApiKey {
+  return res.locals.apiKey as ApiKey;
+}
+
+// Resolves the presented key (401 if missing or unknown), then per route checks the
+// scope (403) and consumes the key's quota for the route's group (429)
+export class AccessControl {
+  constructor(
+    readonly registry: KeyRegistry,
+    readonly limiter: RateLimiter
+  ) {}
+
+  authenticate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // EventSource cannot send headers, so the SSE streams also take ?apiKey=
+      const presented = req.headers['x-api-key']
+        || (/^(\/[^/]+)?\/api\/proof-kenny-events/.test(req.path) ? req.query.apiKey : undefined);
+
+      const key = typeof presented === 'string' ? await this.registry.resolve(presented) : undefined;
+      if (!key) {
+        return res.status(401).json({ error: 'Unauthorized: Invalid API key' });
+      }
+      res.locals.apiKey = key;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  require(scope: Scope, group: QuotaGroup) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const key = requestKey(res);
+        if (!key.scopes.includes(scope) && !key.scopes.includes('admin')) {
+          return res.status(403).json({ error: `Forbidden: API key "${key.name}" lacks the "${scope}" scope` });
+        }
+
+        const state = await this.limiter.consume(key, group);
+        setRateLimitHeaders(res, state);
+        if (!state.allowed) {
+          const retryAfter = Math.max(Math.ceil((state.resetAt - Date.now()) / 1000), 0);
+          return res.status(429).json({
+            error: `Rate limit exceeded for ${group} routes. Max ${state.limit} requests per ${Math.round(state.windowMs / 1000)} seconds.`,
+            retryAfter
+          });
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+}
@@ -0,0 +1,224 @@
+import { BitcoinRpcClient, BlockHeaderInfo, RawTransaction, RpcError, httpStatusForError } from './rpc.js';
+import { NativeProof, proofFromBlock } from './native-proof.js';
+import { BlockCache } from './block-cache.js';
+import { ProofVerification, verifyProof } from './verify.js';
+import { DepthShortfall, MIN_PROOF_CONFIRMATIONS, depthShortfall, unconfirmedShortfall } from './confirmations.js';
+
+export interface BatchItem {
+  txid: string;
+  blockHash?: string;
+}
+
+export type BatchResult =
+  | { txid: string; ok: true; blockHash: string; proof: NativeProof & { verified: true; verification: ProofVerification } }
+  | { txid: string; ok: false; status: number; error: string; rpcCode?: number; blockHash?: string }
+  // A proof that failed self-verification is not returned
+  | { txid: string; ok: false; status: 422; error: string; blockHash: string; verified: false; reason?: string; verification: ProofVerification }
+  | ({ ok: false; status: DepthShortfall['status'] } & DepthShortfall['body']);
+
+export interface BatchOptions {
+  minConfirmations?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface BatchSummary {
+  count: number;
+  succeeded: number;
+  failed: number;
+  blocks: number;
+  results: BatchResult[];
+}
+
+export const BATCH_MAX_TXIDS = Number(process.env.BATCH_MAX_TXIDS || 1000);
+// Larger batches must use the async job variant
+export const BATCH_SYNC_MAX_TXIDS = Number(process.env.BATCH_SYNC_MAX_TXIDS || 50);
+
+const TXID_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Accepts { txids: [...] } where each entry is a txid or { txid, blockHash }
+export function parseBatchItems(body: unknown): BatchItem[] {
+  const entries = Array.isArray(body) ? body : isObject(body) ? body.txids : undefined;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('Request body must contain a non-empty "txids" array');
+  }
+  if (entries.length > BATCH_MAX_TXIDS) {
+    throw new Error(`At most ${BATCH_MAX_TXIDS} txids per batch, got ${entries.length}`);
+  }
+
+  return entries.map((entry: unknown, index: number) => {
+    const txid = typeof entry === 'string' ? entry : isObject(entry) ? entry.txid : undefined;
+    const blockHash = isObject(entry) ? entry.blockHash : undefined;
+    if (typeof txid !== 'string' || !TXID_PATTERN.test(txid)) {
+      throw new Error(`txids[${index}] is not a valid txid`);
+    }
+    if (blockHash !== undefined && (typeof blockHash !== 'string' || !TXID_PATTERN.test(blockHash))) {
+      throw new Error(`txids[${index}].blockHash is not a valid block hash`);
+    }
+    return { txid: txid.toLowerCase(), blockHash: blockHash?.toLowerCase() };
+  });
+}
+
+function failure(txid: string, error: unknown, blockHash?: string): BatchResult {
+  return {
+    txid,
+    ok: false,
+    status: httpStatusForError(error),
+    error: error instanceof Error ? error.message : 'Unknown error',
+    ...(error instanceof RpcError ? { rpcCode: error.code } : {}),
+    ...(blockHash ? { blockHash } : {})
+  };
+}
+
+// Proofs for many txids: each block comes from the block cache (downloaded and its
+// merkle trees built at most once), and the txs themselves are fetched per block in one batch
+export async function getBatchProofs(
+  rpc: BitcoinRpcClient,
+  blocks: BlockCache,
+  items: BatchItem[],
+  options: BatchOptions = {}
+): Promise<BatchSummary> {
+  const { minConfirmations = MIN_PROOF_CONFIRMATIONS, onProgress } = options;
+  const results = new Map<string, BatchResult>();
+  const blockHashes = new Map<string, string>();
+  const txHexes = new Map<string, string>();
+
+  for (const item of items) {
+    if (item.blockHash) {
+      blockHashes.set(item.txid, item.blockHash);
+    }
+  }
+
+  // Look up the block of every txid that came without one, in a single batch
+  const unresolved = [...new Set(items.filter(item => !blockHashes.has(item.txid)).map(item => item.txid))];
+  const lookups = await rpc.batchSettled([
+    ...unresolved.map(txid => ({ method: 'getrawtransaction', params: [txid, true] })),
+    { method: 'getblockcount', params: [] }
+  ]);
+  const tip = lookups.pop()!;
+  lookups.forEach((lookup, index) => {
+    const txid = unresolved[index];
+    if (!lookup.ok) {
+      results.set(txid, failure(txid, lookup.error));
+      return;
+    }
+    const tx = lookup.result as RawTransaction;
+    if (tx.blockhash) {
+      blockHashes.set(txid, tx.blockhash);
+      txHexes.set(txid, tx.hex);
+    } else {
+      const shortfall = unconfirmedShortfall(txid, minConfirmations, tip.ok ? tip.result as number : 0);
+      results.set(txid, { ok: false, status: shortfall.status, ...shortfall.body });
+    }
+  });
+
+  const byBlock = new Map<string, string[]>();
+  for (const [txid, blockHash] of blockHashes) {
+    byBlock.set(blockHash, [...(byBlock.get(blockHash) ?? []), txid]);
+  }
+
+  const total = blockHashes.size;
+  let done = 0;
+
+  for (const [blockHash, txids] of byBlock) {
+    console.log(`🔄 [BATCH] Block ${blockHash}: ${txids.length} txid(s)`);
+
+    try {
+      const context = await blocks.get(blockHash);
+      const missingHex = txids.filter(txid => !txHexes.has(txid) && context.indexByTxid.has(txid));
+      const [header, tip, ...hexReplies] = await rpc.batchSettled([
+        { method: 'getblockheader', params: [blockHash, true] },
+        { method: 'getblockcount', params: [] },
+        ...missingHex.map(txid => ({ method: 'getrawtransaction', params: [txid, false, blockHash] }))
+      ]);
+      if (!header.ok) {
+        throw header.error;
+      }
+      if (!tip.ok) {
+        throw tip.error;
+      }
+      const hexErrors = new Map<string, unknown>();
+      hexReplies.forEach((reply, index) => {
+        if (reply.ok) {
+          txHexes.set(missingHex[index], reply.result as string);
+        } else {
+          hexErrors.set(missingHex[index], reply.error);
+        }
+      });
+
+      const depth = {
+        blockHash,
+        blockHeight: context.height,
+        confirmations: Math.max((header.result as BlockHeaderInfo).confirmations, 0),
+        tipHeight: tip.result as number
+      };
+
+      for (const txid of txids) {
+        if (!context.indexByTxid.has(txid)) {
+          // A blockHash supplied by the caller that does not contain the txid
+          results.set(txid, { txid, ok: false, status: 404, error: `Transaction ${txid} is not in block ${blockHash}`, blockHash });
+          continue;
+        }
+        const shortfall = depthShortfall(txid, depth, minConfirmations);
+        if (shortfall) {
+          results.set(txid, { ok: false, status: shortfall.status, ...shortfall.body });
+          continue;
+        }
+        if (hexErrors.has(txid)) {
+          results.set(txid, failure(txid, hexErrors.get(txid), blockHash));
+          continue;
+        }
+        try {
+          const proof = proofFromBlock(context, txid, txHexes.get(txid)!);
+          const verification = verifyProof(proof, {
+            txid,
+            txHex: proof.txHex,
+            blockHash,
+            blockTxids: context.txids,
+            blockLevels: context.txidLevels
+          });
+          if (!verification.verified) {
+            console.error(`🚨 [BATCH] Proof for ${txid} failed self-verification: ${verification.reason}`);
+            results.set(txid, {
+              txid,
+              ok: false,
+              status: 422,
+              error: `Proof failed self-verification: ${verification.reason}`,
+              blockHash,
+              verified: false,
+              reason: verification.reason,
+              verification
+            });
+            continue;
+          }
+          results.set(txid, { txid, ok: true, blockHash, proof: { ...proof, verified: true, verification } });
+        } catch (error) {
+          results.set(txid, failure(txid, error, blockHash));
+        }
+      }
+    } catch (error) {
+      console.error(`❌ [BATCH] Failed to load block ${blockHash}:`, error);
+      for (const txid of txids) {
+        results.set(txid, failure(txid, error, blockHash));
+      }
+    }
+
+    done += txids.length;
+    onProgress?.(done, total);
+  }
+
+  // One entry per requested item, in request order
+  const ordered = items.map(item => results.get(item.txid)!);
+  const succeeded = ordered.filter(result => result.ok).length;
+
+  return {
+    count: ordered.length,
+    succeeded,
+    failed: ordered.length - succeeded,
+    blocks: byBlock.size,
+    results: ordered
+  };
+}
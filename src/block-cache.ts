@@ -0,0 +1,113 @@
+import { BitcoinRpcClient, BlockWithTransactions } from './rpc.js';
+import { BlockProofContext, prepareBlock } from './native-proof.js';
+
+export interface BlockCacheOptions {
+  // Prepared blocks kept per process; 0 disables caching but keeps load de-duplication
+  maxBlocks: number;
+}
+
+export function getBlockCacheOptions(): BlockCacheOptions {
+  return {
+    maxBlocks: Number(process.env.BLOCK_CACHE_SIZE || 32)
+  };
+}
+
+export interface BlockCacheStats {
+  size: number;
+  maxBlocks: number;
+  hits: number;
+  misses: number;
+  // Requests that joined a load already in flight instead of starting their own
+  deduplicated: number;
+  evictions: number;
+  hitRate: number;
+}
+
+// Concurrent calls for the same key share one promise until it settles
+export class InFlight<T> {
+  private readonly pending = new Map<string, Promise<T>>();
+  joined = 0;
+
+  has(key: string): boolean {
+    return this.pending.has(key);
+  }
+
+  run(key: string, load: () => Promise<T>): Promise<T> {
+    const existing = this.pending.get(key);
+    if (existing) {
+      this.joined++;
+      return existing;
+    }
+    const promise = load().finally(() => this.pending.delete(key));
+    this.pending.set(key, promise);
+    return promise;
+  }
+}
+
+// LRU of prepared blocks keyed by block hash: txids, wtxids, coinbase and both merkle
+// trees, so proofs from a block that was already seen cost no block download. A block's
+// contents never change, so entries only leave by eviction, and reorgs need no handling here.
+export class BlockCache {
+  private readonly blocks = new Map<string, BlockProofContext>();
+  private readonly loading = new InFlight<BlockProofContext>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly rpc: BitcoinRpcClient,
+    private readonly options: BlockCacheOptions
+  ) {}
+
+  async get(blockHash: string): Promise<BlockProofContext> {
+    const cached = this.blocks.get(blockHash);
+    if (cached) {
+      this.hits++;
+      // Re-insert to mark it most recently used
+      this.blocks.delete(blockHash);
+      this.blocks.set(blockHash, cached);
+      return cached;
+    }
+
+    if (!this.loading.has(blockHash)) {
+      this.misses++;
+    }
+    return this.loading.run(blockHash, () => this.load(blockHash));
+  }
+
+  private async load(blockHash: string): Promise<BlockProofContext> {
+    const [block, headerHex] = await this.rpc.batch<[BlockWithTransactions, string]>([
+      { method: 'getblock', params: [blockHash, 2] },
+      { method: 'getblockheader', params: [blockHash, false] }
+    ]);
+    console.log(`📦 [BLOCK-CACHE] Loaded block ${blockHash} at height ${block.height} (${block.tx.length} txs)`);
+
+    const context = prepareBlock(block, headerHex);
+    if (this.options.maxBlocks > 0) {
+      this.blocks.set(blockHash, context);
+      while (this.blocks.size > this.options.maxBlocks) {
+        this.blocks.delete(this.blocks.keys().next().value!);
+        this.evictions++;
+      }
+    }
+    return context;
+  }
+
+  clear() {
+    this.blocks.clear();
+  }
+
+  stats(): BlockCacheStats {
+    const deduplicated = this.loading.joined;
+    const lookups = this.hits + this.misses + deduplicated;
+    return {
+      size: this.blocks.size,
+      maxBlocks: this.options.maxBlocks,
+      hits: this.hits,
+      misses: this.misses,
+      deduplicated,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? Number((this.hits / lookups).toFixed(4)) : 0
+    };
+  }
+}
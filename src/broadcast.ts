@@ -0,0 +1,140 @@
+import { BitcoinRpcClient, RPC_ERROR_CODES, RpcError } from './rpc.js';
+
+export interface BroadcastOptions {
+  // Highest fee rate accepted for broadcast, sat/vB; the node's default (0.1 BTC/kvB) when unset
+  maxFeeRate?: number;
+}
+
+export function getBroadcastOptions(): BroadcastOptions {
+  return {
+    maxFeeRate: process.env.BROADCAST_MAX_FEE_RATE_SAT_VB ? Number(process.env.BROADCAST_MAX_FEE_RATE_SAT_VB) : undefined
+  };
+}
+
+export type BroadcastErrorCode =
+  | 'invalid_transaction'
+  | 'fee_too_low'
+  | 'fee_rate_too_high'
+  | 'replacement_rejected'
+  | 'non_final'
+  | 'inputs_missing_or_spent'
+  | 'mempool_conflict'
+  | 'mempool_chain_too_long'
+  | 'already_in_chain'
+  | 'non_standard'
+  | 'script_verify_failed'
+  | 'rejected';
+
+// A transaction the node would not accept, with the node's reason translated
+export class BroadcastError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: BroadcastErrorCode,
+    message: string,
+    public readonly rejectReason?: string,
+    public readonly txid?: string
+  ) {
+    super(message);
+    this.name = 'BroadcastError';
+  }
+}
+
+// Reject reasons from testmempoolaccept, by prefix, most specific first
+const REJECT_REASONS: Array<{ prefix: string; status: number; code: BroadcastErrorCode; message: string }> = [
+  { prefix: 'min relay fee not met', status: 422, code: 'fee_too_low', message: 'Fee rate is below the minimum relay fee' },
+  { prefix: 'mempool min fee not met', status: 422, code: 'fee_too_low', message: 'Fee rate is below the mempool minimum fee; the mempool is full' },
+  { prefix: 'max-fee-exceeded', status: 422, code: 'fee_rate_too_high', message: 'Fee rate is above the allowed maximum' },
+  { prefix: 'insufficient fee', status: 422, code: 'replacement_rejected', message: 'Replacement does not pay enough fee over the transactions it replaces' },
+  { prefix: 'too many potential replacements', status: 422, code: 'replacement_rejected', message: 'Replacement would evict too many transactions' },
+  { prefix: 'non-BIP68-final', status: 422, code: 'non_final', message: 'A relative timelock (BIP68) is not yet satisfied' },
+  { prefix: 'non-final', status: 422, code: 'non_final', message: 'Locktime is not yet reached' },
+  { prefix: 'bad-txns-inputs-missingorspent', status: 409, code: 'inputs_missing_or_spent', message: 'An input is unknown or already spent' },
+  { prefix: 'missing-inputs', status: 409, code: 'inputs_missing_or_spent', message: 'An input is unknown or already spent' },
+  { prefix: 'txn-mempool-conflict', status: 409, code: 'mempool_conflict', message: 'Spends an output already spent by a mempool transaction that cannot be replaced' },
+  { prefix: 'too-long-mempool-chain', status: 422, code: 'mempool_chain_too_long', message: 'Too many unconfirmed ancestors or descendants' },
+  { prefix: 'txn-already-known', status: 409, code: 'already_in_chain', message: 'Transaction is already confirmed' },
+  { prefix: 'mandatory-script-verify-flag-failed', status: 422, code: 'script_verify_failed', message: 'A signature or script is invalid' },
+  { prefix: 'non-mandatory-script-verify-flag', status: 422, code: 'non_standard', message: 'A script is valid but non-standard' },
+  { prefix: 'dust', status: 422, code: 'non_standard', message: 'An output is below the dust limit' },
+  { prefix: 'tx-size', status: 422, code: 'non_standard', message: 'Transaction is too large' },
+  { prefix: 'scriptpubkey', status: 422, code: 'non_standard', message: 'An output script is non-standard' },
+  { prefix: 'bad-txns', status: 422, code: 'invalid_transaction', message: 'Transaction is invalid' }
+];
+
+export function translateRejectReason(reason: string, txid?: string): BroadcastError {
+  const known = REJECT_REASONS.find(entry => reason.startsWith(entry.prefix));
+  return known
+    ? new BroadcastError(known.status, known.code, known.message, reason, txid)
+    : new BroadcastError(422, 'rejected', `Rejected by the node: ${reason}`, reason, txid);
+}
+
+interface MempoolAcceptResult {
+  txid: string;
+  wtxid: string;
+  allowed: boolean;
+  vsize?: number;
+  fees?: { base: number };
+  'reject-reason'?: string;
+  'reject-details'?: string;
+}
+
+export interface BroadcastResult {
+  txid: string;
+  // Already in our mempool before this broadcast
+  alreadyInMempool: boolean;
+  vsize?: number;
+  feeRate?: number;
+}
+
+// sat/vB as the BTC/kvB the RPCs take
+function btcPerKvb(satPerVbyte: number): number {
+  return Number((satPerVbyte / 1e5).toFixed(8));
+}
+
+export function isRawTransactionHex(hex: unknown): hex is string {
+  return typeof hex === 'string' && hex.length >= 120 && hex.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(hex);
+}
+
+// Checks the transaction with testmempoolaccept and only then sends it, so a rejected
+// transaction gets a structured reason and is never relayed
+export async function broadcastTransaction(rpc: BitcoinRpcClient, hex: string, maxFeeRate?: number): Promise<BroadcastResult> {
+  const feeParams = maxFeeRate !== undefined ? [btcPerKvb(maxFeeRate)] : [];
+
+  let accept: MempoolAcceptResult;
+  try {
+    [accept] = await rpc.call<MempoolAcceptResult[]>('testmempoolaccept', [[hex], ...feeParams]);
+  } catch (error) {
+    if (error instanceof RpcError && error.code === RPC_ERROR_CODES.DESERIALIZATION_ERROR) {
+      throw new BroadcastError(400, 'invalid_transaction', 'Transaction hex could not be decoded', error.message);
+    }
+    throw error;
+  }
+
+  const reason = accept['reject-reason'];
+  if (!accept.allowed) {
+    // Re-broadcasting a transaction the node already has is not an error
+    if (reason === 'txn-already-in-mempool') {
+      return { txid: accept.txid, alreadyInMempool: true };
+    }
+    throw translateRejectReason(reason ?? 'unknown', accept.txid);
+  }
+
+  try {
+    const txid = await rpc.call<string>('sendrawtransaction', [hex, ...feeParams]);
+    return {
+      txid,
+      alreadyInMempool: false,
+      vsize: accept.vsize,
+      feeRate: accept.fees && accept.vsize ? Number((accept.fees.base * 1e8 / accept.vsize).toFixed(2)) : undefined
+    };
+  } catch (error) {
+    // The mempool can change between the two calls
+    if (error instanceof RpcError && error.code === RPC_ERROR_CODES.VERIFY_ALREADY_IN_CHAIN) {
+      throw new BroadcastError(409, 'already_in_chain', 'Transaction is already confirmed', error.message, accept.txid);
+    }
+    if (error instanceof RpcError && (error.code === RPC_ERROR_CODES.VERIFY_REJECTED || error.code === RPC_ERROR_CODES.VERIFY_ERROR)) {
+      throw translateRejectReason(error.message, accept.txid);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,253 @@
+import {
+  ClarityAbiFunction,
+  ClarityAbiType,
+  cvToString,
+  getTypeString,
+  transformArgsArray
+} from '@clarigen/core';
+import { serializeCV } from '@stacks/transactions';
+import { NativeProof } from './native-proof.js';
+import { parseTransaction, serializeWitness, uint32LE, uint64LE } from './tx.js';
+
+export type ClarityArgsFunction = 'was-tx-mined-compact' | 'was-segwit-tx-mined-compact';
+
+// `buff` passes the transaction as one buffer (clarity-bitcoin-lib), `tuple` splits it
+// into version/ins/outs/locktime plus witness-data as the Styx deposit contract takes it
+export type WtxForm = 'buff' | 'tuple';
+
+export const CLARITY_ARGS_FUNCTIONS: ClarityArgsFunction[] = ['was-tx-mined-compact', 'was-segwit-tx-mined-compact'];
+
+export interface ClarityArg {
+  name: string;
+  type: string;
+  value: unknown;
+  repr: string;
+  hex: string;
+}
+
+export interface ClarityArgsResult {
+  fn: ClarityArgsFunction;
+  form: WtxForm;
+  args: ClarityArg[];
+}
+
+// Largest transactions the clarity-bitcoin parse-tx / parse-wtx functions and the Styx
+// deposit contract accept; larger ones can be mined but never proven on Stacks
+export const CLARITY_TX_LIMITS = {
+  txBytes: 4096,
+  inputs: 50,
+  outputs: 50,
+  scriptBytes: 1376,
+  witnessDataBytes: 1650
+} as const;
+
+const buff = (length: number): ClarityAbiType => ({ buffer: { length } });
+const PROOF_HASHES: ClarityAbiType = { list: { type: buff(32), length: 14 } };
+
+const TX_TUPLE: ClarityAbiType = {
+  tuple: [
+    { name: 'version', type: buff(4) },
+    {
+      name: 'ins',
+      type: {
+        list: {
+          type: {
+            tuple: [
+              { name: 'outpoint', type: { tuple: [{ name: 'hash', type: buff(32) }, { name: 'index', type: buff(4) }] } },
+              { name: 'scriptSig', type: buff(CLARITY_TX_LIMITS.scriptBytes) },
+              { name: 'sequence', type: buff(4) }
+            ]
+          },
+          length: CLARITY_TX_LIMITS.inputs
+        }
+      }
+    },
+    {
+      name: 'outs',
+      type: {
+        list: {
+          type: { tuple: [{ name: 'value', type: buff(8) }, { name: 'scriptPubKey', type: buff(CLARITY_TX_LIMITS.scriptBytes) }] },
+          length: CLARITY_TX_LIMITS.outputs
+        }
+      }
+    },
+    { name: 'locktime', type: buff(4) }
+  ]
+};
+
+const MINED_OUTPUT = { type: { response: { ok: buff(32), error: 'uint128' } } } as ClarityAbiFunction['outputs'];
+
+const WAS_TX_MINED_COMPACT: ClarityAbiFunction = {
+  name: 'was-tx-mined-compact',
+  access: 'read_only',
+  args: [
+    { name: 'height', type: 'uint128' },
+    { name: 'tx', type: buff(CLARITY_TX_LIMITS.txBytes) },
+    { name: 'header', type: buff(80) },
+    {
+      name: 'proof',
+      type: {
+        tuple: [
+          { name: 'tx-index', type: 'uint128' },
+          { name: 'hashes', type: PROOF_HASHES },
+          { name: 'tree-depth', type: 'uint128' }
+        ]
+      }
+    }
+  ],
+  outputs: MINED_OUTPUT
+};
+
+const SEGWIT_TAIL_ARGS = [
+  { name: 'header', type: buff(80) },
+  { name: 'tx-index', type: 'uint128' },
+  { name: 'tree-depth', type: 'uint128' },
+  { name: 'wproof', type: PROOF_HASHES },
+  { name: 'witness-merkle-root', type: buff(32) },
+  { name: 'witness-reserved-value', type: buff(32) },
+  { name: 'ctx', type: buff(1024) },
+  { name: 'cproof', type: PROOF_HASHES }
+] as ClarityAbiFunction['args'];
+
+const WAS_SEGWIT_TX_MINED_COMPACT: ClarityAbiFunction = {
+  name: 'was-segwit-tx-mined-compact',
+  access: 'read_only',
+  args: [
+    { name: 'height', type: 'uint128' },
+    { name: 'wtx', type: buff(CLARITY_TX_LIMITS.txBytes) },
+    ...SEGWIT_TAIL_ARGS
+  ],
+  outputs: MINED_OUTPUT
+};
+
+const WAS_SEGWIT_TX_MINED_COMPACT_TUPLE: ClarityAbiFunction = {
+  ...WAS_SEGWIT_TX_MINED_COMPACT,
+  args: [
+    { name: 'height', type: 'uint128' },
+    { name: 'wtx', type: TX_TUPLE },
+    { name: 'witness-data', type: buff(CLARITY_TX_LIMITS.witnessDataBytes) },
+    ...SEGWIT_TAIL_ARGS
+  ]
+};
+
+export function parseClarityArgsFunction(value: unknown): ClarityArgsFunction | undefined {
+  return CLARITY_ARGS_FUNCTIONS.find(fn => fn === value);
+}
+
+const hex = (value: string) => Buffer.from(value.replace(/^0x/, ''), 'hex');
+
+function txTuple(txHex: string) {
+  const tx = parseTransaction(txHex);
+  return {
+    tuple: {
+      version: uint32LE(tx.version),
+      ins: tx.inputs.map(input => ({
+        outpoint: { hash: input.hash, index: uint32LE(input.index) },
+        scriptSig: input.scriptSig,
+        sequence: uint32LE(input.sequence)
+      })),
+      outs: tx.outputs.map(output => ({
+        value: uint64LE(output.value),
+        scriptPubKey: output.scriptPubKey
+      })),
+      locktime: uint32LE(tx.locktime)
+    },
+    witnessData: serializeWitness(tx)
+  };
+}
+
+// Rejects values the contract would refuse because they exceed the declared type
+function checkLimits(type: ClarityAbiType, value: unknown, path: string): void {
+  if (typeof type === 'object' && 'buffer' in type) {
+    const length = (value as Buffer).length;
+    if (length > type.buffer.length) {
+      throw new Error(`${path} is ${length} bytes, the contract accepts at most ${type.buffer.length}`);
+    }
+  } else if (typeof type === 'object' && 'list' in type) {
+    const items = value as unknown[];
+    if (items.length > type.list.length) {
+      throw new Error(`${path} has ${items.length} items, the contract accepts at most ${type.list.length}`);
+    }
+    items.forEach((item, index) => checkLimits(type.list.type, item, `${path}[${index}]`));
+  } else if (typeof type === 'object' && 'tuple' in type) {
+    for (const field of type.tuple) {
+      checkLimits(field.type, (value as Record<string, unknown>)[field.name], `${path}.${field.name}`);
+    }
+  }
+}
+
+function toJson(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return `0x${Buffer.from(value).toString('hex')}`;
+  }
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJson);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJson(item)]));
+  }
+  return value;
+}
+
+export function buildClarityArgs(proof: NativeProof, fn: ClarityArgsFunction, form: WtxForm = 'buff'): ClarityArgsResult {
+  let abi: ClarityAbiFunction;
+  let values: unknown[];
+
+  if (fn === 'was-tx-mined-compact') {
+    if (form === 'tuple') {
+      throw new Error('The tuple form is only available for was-segwit-tx-mined-compact');
+    }
+    abi = WAS_TX_MINED_COMPACT;
+    values = [
+      proof.height,
+      hex(proof.txStrippedHex),
+      hex(proof.header),
+      {
+        'tx-index': proof.txIndex,
+        hashes: proof.merkleProof.map(hex),
+        'tree-depth': proof.treeDepth
+      }
+    ];
+  } else {
+    if (!proof.hasWitnessCommitment || !proof.witnessMerkleRoot) {
+      throw new Error(`Block ${proof.blockHash} has no witness commitment, use was-tx-mined-compact`);
+    }
+    const tail = [
+      hex(proof.header),
+      proof.txIndex,
+      proof.treeDepth,
+      proof.witnessMerkleProof.map(hex),
+      hex(proof.witnessMerkleRoot),
+      hex(proof.witnessReservedValue),
+      hex(proof.ctxHex),
+      proof.coinbaseMerkleProof.map(hex)
+    ];
+
+    if (form === 'tuple') {
+      const { tuple, witnessData } = txTuple(proof.txHex);
+      abi = WAS_SEGWIT_TX_MINED_COMPACT_TUPLE;
+      values = [proof.height, tuple, witnessData, ...tail];
+    } else {
+      abi = WAS_SEGWIT_TX_MINED_COMPACT;
+      values = [proof.height, hex(proof.txHex), ...tail];
+    }
+  }
+
+  abi.args.forEach((arg, index) => checkLimits(arg.type, values[index], arg.name));
+  const clarityValues = transformArgsArray(abi, values);
+
+  return {
+    fn,
+    form,
+    args: abi.args.map((arg, index) => ({
+      name: arg.name,
+      type: getTypeString(arg.type),
+      value: toJson(values[index]),
+      repr: cvToString(clarityValues[index]),
+      hex: `0x${serializeCV(clarityValues[index])}`
+    }))
+  };
+}
@@ -0,0 +1,109 @@
+import { BitcoinRpcClient, BlockHeaderInfo } from './rpc.js';
+
+// Default depth a transaction must be buried at before the service hands out a proof
+export const MIN_PROOF_CONFIRMATIONS = Number(process.env.MIN_PROOF_CONFIRMATIONS || 1);
+
+export interface BlockDepth {
+  blockHash: string;
+  blockHeight: number;
+  // 0 when the block is not on the main chain (the node reports -1)
+  confirmations: number;
+  tipHeight: number;
+}
+
+export interface DepthShortfall {
+  status: 409 | 425;
+  body: {
+    error: string;
+    txid: string;
+    confirmations: number;
+    required: number;
+    remaining: number;
+    tip_height: number;
+    block_height?: number;
+    block_hash?: string;
+    ready_at_height?: number;
+  };
+}
+
+export class InsufficientDepthError extends Error {
+  constructor(public readonly shortfall: DepthShortfall) {
+    super(shortfall.body.error);
+    this.name = 'InsufficientDepthError';
+  }
+}
+
+// ?minConfirmations= overrides the default; returns undefined for an invalid value
+export function parseMinConfirmations(value: unknown): number | undefined {
+  if (value === undefined || value === '') {
+    return MIN_PROOF_CONFIRMATIONS;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : undefined;
+}
+
+export async function getBlockDepth(rpc: BitcoinRpcClient, blockHash: string): Promise<BlockDepth> {
+  const [header, tipHeight] = await rpc.batch<[BlockHeaderInfo, number]>([
+    { method: 'getblockheader', params: [blockHash, true] },
+    { method: 'getblockcount', params: [] }
+  ]);
+  return {
+    blockHash,
+    blockHeight: header.height,
+    confirmations: Math.max(header.confirmations, 0),
+    tipHeight
+  };
+}
+
+export function unconfirmedShortfall(txid: string, required: number, tipHeight: number): DepthShortfall {
+  return {
+    status: 409,
+    body: {
+      error: 'Transaction not confirmed',
+      txid,
+      confirmations: 0,
+      required,
+      remaining: required,
+      tip_height: tipHeight
+    }
+  };
+}
+
+// Undefined when the block is deep enough, otherwise the 409/425 response to send
+export function depthShortfall(txid: string, depth: BlockDepth, required: number): DepthShortfall | undefined {
+  if (depth.confirmations >= required) {
+    return undefined;
+  }
+
+  if (depth.confirmations === 0) {
+    return {
+      status: 409,
+      body: {
+        error: 'Block is not on the main chain',
+        txid,
+        confirmations: 0,
+        required,
+        remaining: required,
+        tip_height: depth.tipHeight,
+        block_height: depth.blockHeight,
+        block_hash: depth.blockHash
+      }
+    };
+  }
+
+  const remaining = required - depth.confirmations;
+  return {
+    status: 425,
+    body: {
+      error: `Not deep enough yet: ${depth.confirmations} of ${required} confirmations`,
+      txid,
+      confirmations: depth.confirmations,
+      required,
+      remaining,
+      tip_height: depth.tipHeight,
+      block_height: depth.blockHeight,
+      block_hash: depth.blockHash,
+      ready_at_height: depth.tipHeight + remaining
+    }
+  };
+}
@@ -0,0 +1,273 @@
+import { BitcoinRpcClient, RPC_ERROR_CODES } from './rpc.js';
+import { StateMap, StateStore } from './store.js';
+import { DepositProblemCode, DepositRules, StyxRecipient, parseDeposit, rawTransactionOutputs } from './styx.js';
+
+export interface DepositWatcherOptions {
+  intervalMs: number;
+  // First block of the initial scan; when unset, the last backfillBlocks blocks are scanned
+  fromHeight?: number;
+  backfillBlocks: number;
+  // Blocks scanned per run, so a long backfill does not hold the node for one long stretch
+  blocksPerRun: number;
+}
+
+// prefix selects <NAME>_STYX_* for one of several networks (see network.ts)
+export function getDepositWatcherOptions(prefix = ''): DepositWatcherOptions {
+  const env = (name: string) => process.env[`${prefix}${name}`];
+  return {
+    intervalMs: Number(env('STYX_SCAN_INTERVAL_MS') || 60000),
+    fromHeight: env('STYX_SCAN_FROM_HEIGHT') ? Number(env('STYX_SCAN_FROM_HEIGHT')) : undefined,
+    backfillBlocks: Number(env('STYX_SCAN_BACKFILL_BLOCKS') || 144),
+    blocksPerRun: Number(env('STYX_SCAN_BLOCKS_PER_RUN') || 50)
+  };
+}
+
+// One pool output of a mined transaction; deposits paying the pool in several outputs
+// have one entry per output
+export interface IndexedDeposit {
+  txid: string;
+  vout: number;
+  address: string;
+  // sats
+  amount: number;
+  recipient: StyxRecipient | null;
+  memoHex: string | null;
+  // The transaction passes every deposit rule (see parseDeposit)
+  valid: boolean;
+  problems: DepositProblemCode[];
+  blockHash: string;
+  height: number;
+  indexedAt: number;
+  // When a proof endpoint first returned a proof for the transaction
+  provenAt?: number;
+}
+
+// invalid: fails a deposit rule; ready: deep enough to prove; proven: a proof was returned here.
+// Claims happen on Stacks and are not tracked.
+export type DepositStatus = 'invalid' | 'pending_confirmations' | 'ready' | 'proven';
+
+export interface DepositView extends IndexedDeposit {
+  confirmations: number;
+  status: DepositStatus;
+}
+
+export interface DepositFilter {
+  recipient?: string;
+  fromHeight?: number;
+  toHeight?: number;
+  status?: DepositStatus;
+}
+
+export interface ScanCursor {
+  // Last scanned height
+  height: number;
+  // Recently scanned blocks, newest last, to find the fork point after a reorg
+  recent: Array<{ height: number; blockHash: string }>;
+  updatedAt: number;
+}
+
+const RECENT_BLOCKS = 12;
+
+// Scans new blocks (and a backfill range) for outputs paying the Styx pool and keeps an
+// index of them, so deposits nobody asked about are visible too. Blocks that leave the
+// main chain are dropped from the index and the chain is scanned again from the fork.
+export class DepositWatcher {
+  readonly deposits: StateMap<IndexedDeposit>;
+  // Deposit keys by block height, and the height of every indexed txid
+  private readonly heights: StateMap<string[]>;
+  private readonly txids: StateMap<number>;
+  private readonly cursor: StateMap<ScanCursor>;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly rpc: BitcoinRpcClient,
+    private readonly store: StateStore,
+    private readonly options: DepositWatcherOptions,
+    // Undefined until the network is detected
+    private readonly rules: () => DepositRules | undefined,
+    namespace = 'styx-deposits'
+  ) {
+    this.deposits = new StateMap<IndexedDeposit>(store, namespace, { maxEntries: 100000 });
+    this.heights = new StateMap<string[]>(store, `${namespace}-heights`, { maxEntries: 100000 });
+    this.txids = new StateMap<number>(store, `${namespace}-txids`, { maxEntries: 100000 });
+    this.cursor = new StateMap<ScanCursor>(store, `${namespace}-cursor`);
+  }
+
+  start() {
+    if (this.timer || this.options.intervalMs <= 0) {
+      return;
+    }
+    console.log(`🌉 [STYX-SCAN] Scanning blocks for pool deposits every ${this.options.intervalMs}ms`);
+    const run = () => this.scan().catch(error => console.error('❌ [STYX-SCAN] Block scan failed:', error));
+    run();
+    this.timer = setInterval(run, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  status(): Promise<ScanCursor | undefined> {
+    return this.cursor.get('cursor');
+  }
+
+  // Scans up to blocksPerRun blocks past the cursor; returns how many were scanned
+  async scan(): Promise<number> {
+    const rules = this.rules();
+    if (this.running || !rules || rules.pool.size === 0) {
+      return 0;
+    }
+    // With a shared store, one worker scans per interval
+    const slot = Math.floor(Date.now() / Math.max(this.options.intervalMs, 1000));
+    if (!(await this.store.setIfAbsent('locks', `styx-scan:${this.deposits.namespace}:${slot}`, process.pid, { ttlMs: Math.max(this.options.intervalMs, 1000) }))) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const tip = await this.rpc.getBlockCount();
+      let cursor = await this.cursor.get('cursor');
+      if (cursor) {
+        cursor = await this.rewindIfReorged(cursor);
+      }
+      const next = cursor ? cursor.height + 1 : this.options.fromHeight ?? Math.max(tip - this.options.backfillBlocks + 1, 0);
+      const last = Math.min(tip, next + this.options.blocksPerRun - 1);
+
+      for (let height = next; height <= last; height++) {
+        const blockHash = await this.rpc.getBlockHash(height);
+        const found = await this.scanBlock(blockHash, height, rules);
+        if (found > 0) {
+          console.log(`🌉 [STYX-SCAN] ${found} pool output(s) in block ${height}`);
+        }
+        const recent = [...(cursor?.recent ?? []), { height, blockHash }].slice(-RECENT_BLOCKS);
+        cursor = { height, recent, updatedAt: Date.now() };
+        await this.cursor.set('cursor', cursor);
+      }
+      return Math.max(last - next + 1, 0);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async scanBlock(blockHash: string, height: number, rules: DepositRules): Promise<number> {
+    const block = await this.rpc.getBlockWithTransactions(blockHash);
+    const keys: string[] = [];
+    // The coinbase cannot be a deposit
+    for (const tx of block.tx.slice(1)) {
+      const deposit = parseDeposit(tx.txid, rawTransactionOutputs(tx), rules);
+      for (const output of deposit.deposit.outputs) {
+        keys.push(`${tx.txid}:${output.vout}`);
+        await this.deposits.set(`${tx.txid}:${output.vout}`, {
+          txid: tx.txid,
+          vout: output.vout,
+          address: output.address,
+          amount: output.amount,
+          recipient: deposit.recipient,
+          memoHex: deposit.memo?.hex ?? null,
+          valid: deposit.valid,
+          problems: deposit.problems.map(problem => problem.code),
+          blockHash,
+          height,
+          indexedAt: Date.now()
+        });
+      }
+      if (deposit.deposit.outputs.length > 0) {
+        await this.txids.set(tx.txid, height);
+      }
+    }
+    if (keys.length > 0) {
+      await this.heights.set(String(height), keys);
+    }
+    return keys.length;
+  }
+
+  // Steps back to the newest scanned block still on the main chain, dropping what was
+  // indexed above it; the whole recent window when none of it is left
+  private async rewindIfReorged(cursor: ScanCursor): Promise<ScanCursor> {
+    if (cursor.recent.length === 0) {
+      return cursor;
+    }
+    const replies = await this.rpc.batchSettled(cursor.recent.map(block => ({ method: 'getblockhash', params: [block.height] })));
+    const unanswered = replies.find(reply => !reply.ok && reply.error.code !== RPC_ERROR_CODES.INVALID_PARAMETER);
+    if (unanswered && !unanswered.ok) {
+      throw unanswered.error;
+    }
+    const onChain = cursor.recent.filter((block, index) => {
+      const reply = replies[index];
+      return reply.ok && reply.result === block.blockHash;
+    });
+    if (onChain.length === cursor.recent.length) {
+      return cursor;
+    }
+
+    const forkHeight = onChain.length > 0 ? onChain[onChain.length - 1].height : cursor.recent[0].height - 1;
+    console.log(`🔀 [STYX-SCAN] Scanned blocks above height ${forkHeight} left the main chain, rescanning from there`);
+    for (const height of (await this.indexedHeights()).filter(height => height > forkHeight)) {
+      const keys = (await this.heights.get(String(height))) ?? [];
+      for (const key of keys) {
+        await this.deposits.delete(key);
+        await this.txids.delete(key.slice(0, key.indexOf(':')));
+      }
+      await this.heights.delete(String(height));
+    }
+
+    const rewound: ScanCursor = { height: forkHeight, recent: onChain, updatedAt: Date.now() };
+    await this.cursor.set('cursor', rewound);
+    return rewound;
+  }
+
+  private async indexedHeights(): Promise<number[]> {
+    return (await this.heights.keys()).map(Number);
+  }
+
+  // Deposits in the height range, read through the height index in two batched reads
+  async list(fromHeight = 0, toHeight = Infinity): Promise<IndexedDeposit[]> {
+    const heights = (await this.indexedHeights()).filter(height => height >= fromHeight && height <= toHeight);
+    const keys = (await this.heights.getMany(heights.map(String))).flatMap(item => item ?? []);
+    const found = await this.deposits.getMany(keys);
+    return found.filter((item): item is IndexedDeposit => item !== undefined);
+  }
+
+  // Records that a proof was returned for the transaction, if it is an indexed deposit
+  async markProven(txid: string): Promise<void> {
+    const height = await this.txids.get(txid);
+    if (height === undefined) {
+      return;
+    }
+    const keys = ((await this.heights.get(String(height))) ?? []).filter(key => key.startsWith(`${txid}:`));
+    const deposits = await this.deposits.getMany(keys);
+    const provenAt = Date.now();
+    for (const deposit of deposits) {
+      if (deposit && deposit.provenAt === undefined) {
+        await this.deposits.set(`${deposit.txid}:${deposit.vout}`, { ...deposit, provenAt });
+      }
+    }
+  }
+
+  // Indexed deposits with their depth and status, newest first
+  async query(filter: DepositFilter, tipHeight: number, minConfirmations: number): Promise<DepositView[]> {
+    const matching = (await this.list(filter.fromHeight, filter.toHeight)).filter(deposit =>
+      filter.recipient === undefined || deposit.recipient?.principal === filter.recipient
+    );
+
+    const views: DepositView[] = [];
+    for (const deposit of matching) {
+      const confirmations = Math.max(tipHeight - deposit.height + 1, 0);
+      let status: DepositStatus;
+      if (!deposit.valid) {
+        status = 'invalid';
+      } else if (confirmations < minConfirmations) {
+        status = 'pending_confirmations';
+      } else {
+        status = deposit.provenAt !== undefined ? 'proven' : 'ready';
+      }
+      if (filter.status === undefined || filter.status === status) {
+        views.push({ ...deposit, confirmations, status });
+      }
+    }
+    return views.sort((a, b) => b.height - a.height || a.txid.localeCompare(b.txid) || a.vout - b.vout);
+  }
+}
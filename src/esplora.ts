@@ -0,0 +1,273 @@
+import { BitcoinRpcClient, BlockInfo, RawTransaction, RawTxInput, ScriptPubKey } from './rpc.js';
+import { buildMerkleTree, internalToTxid, merklePath, txidToInternal } from './merkle.js';
+import { NetworkParams, scriptAddress } from './network.js';
+import { innerScripts, scriptAsm } from './script.js';
+import { btcToSats } from './tx.js';
+
+// Esplora's page size for /block/:hash/txs/:start
+export const BLOCK_TXS_PAGE = 25;
+
+// Esplora's /block/:hash object
+export interface EsploraBlock {
+  id: string;
+  height: number;
+  version: number;
+  timestamp: number;
+  tx_count: number;
+  size: number;
+  weight: number;
+  merkle_root: string;
+  previousblockhash: string | null;
+  mediantime: number;
+  nonce: number;
+  bits: number;
+  difficulty: number;
+}
+
+export function esploraBlock(block: BlockInfo): EsploraBlock {
+  return {
+    id: block.hash,
+    height: block.height,
+    version: block.version,
+    timestamp: block.time,
+    tx_count: block.nTx,
+    size: block.size,
+    weight: block.weight,
+    merkle_root: block.merkleroot,
+    previousblockhash: block.previousblockhash ?? null,
+    mediantime: block.mediantime,
+    nonce: block.nonce,
+    bits: parseInt(block.bits, 16),
+    difficulty: block.difficulty
+  };
+}
+
+export interface EsploraTxStatus {
+  confirmed: boolean;
+  block_height?: number;
+  block_hash?: string;
+  block_time?: number;
+}
+
+export interface EsploraOutput {
+  scriptpubkey: string;
+  scriptpubkey_asm: string;
+  scriptpubkey_type: string;
+  scriptpubkey_address?: string;
+  // sats
+  value: number;
+}
+
+export interface EsploraInput {
+  txid: string;
+  vout: number;
+  prevout: EsploraOutput | null;
+  scriptsig: string;
+  scriptsig_asm: string;
+  witness?: string[];
+  is_coinbase: boolean;
+  sequence: number;
+  // Disassembled redeem script of a P2SH spend
+  inner_redeemscript_asm?: string;
+  // Disassembled witness script of a P2WSH spend, or tapscript of a taproot script path spend
+  inner_witnessscript_asm?: string;
+}
+
+export interface EsploraTransaction {
+  txid: string;
+  version: number;
+  locktime: number;
+  vin: EsploraInput[];
+  vout: EsploraOutput[];
+  size: number;
+  weight: number;
+  // sats; 0 for a coinbase, null when a spent output could not be found
+  fee: number | null;
+  status: EsploraTxStatus;
+}
+
+// Esplora's script type names, from the script itself as Esplora does
+export function esploraScriptType(hex: string): string {
+  if (hex === '') {
+    return 'empty';
+  }
+  if (hex.startsWith('6a')) {
+    return 'op_return';
+  }
+  if (/^(21[0-9a-f]{66}|41[0-9a-f]{130})ac$/.test(hex)) {
+    return 'p2pk';
+  }
+  if (/^76a914[0-9a-f]{40}88ac$/.test(hex)) {
+    return 'p2pkh';
+  }
+  if (/^a914[0-9a-f]{40}87$/.test(hex)) {
+    return 'p2sh';
+  }
+  if (/^0014[0-9a-f]{40}$/.test(hex)) {
+    return 'v0_p2wpkh';
+  }
+  if (/^0020[0-9a-f]{64}$/.test(hex)) {
+    return 'v0_p2wsh';
+  }
+  if (/^5120[0-9a-f]{64}$/.test(hex)) {
+    return 'v1_p2tr';
+  }
+  return 'unknown';
+}
+
+function esploraOutput(value: number, script: ScriptPubKey, params?: NetworkParams): EsploraOutput {
+  const bytes = Buffer.from(script.hex, 'hex');
+  // Decoded here so every standard type has one, taproot included; the node's until the network is known
+  const address = params ? scriptAddress(bytes, params) : script.address;
+  return {
+    scriptpubkey: script.hex,
+    scriptpubkey_asm: scriptAsm(bytes),
+    scriptpubkey_type: esploraScriptType(script.hex),
+    ...(address ? { scriptpubkey_address: address } : {}),
+    value: Number(btcToSats(value))
+  };
+}
+
+// Spent outputs by "txid:vout", for nodes that do not put them in the transaction
+export type Prevouts = Map<string, { value: number; scriptPubKey: ScriptPubKey }>;
+
+function spentOutput(input: RawTxInput, prevouts?: Prevouts) {
+  return input.prevout ?? prevouts?.get(`${input.txid}:${input.vout}`);
+}
+
+// Bitcoin Core before 25 ignores verbosity 2 and leaves out prevouts (so does a newer node
+// without the undo data); they are then looked up in one batch of getrawtransaction calls.
+// Outputs that cannot be found stay missing.
+export async function resolvePrevouts(rpc: BitcoinRpcClient, txs: RawTransaction[]): Promise<Prevouts> {
+  const missing = new Set<string>();
+  for (const tx of txs) {
+    for (const input of tx.vin) {
+      if (input.coinbase === undefined && !input.prevout) {
+        missing.add(input.txid!);
+      }
+    }
+  }
+  const prevouts: Prevouts = new Map();
+  if (missing.size === 0) {
+    return prevouts;
+  }
+
+  const txids = [...missing];
+  const replies = await rpc.batchSettled(txids.map(txid => ({ method: 'getrawtransaction', params: [txid, true] })));
+  replies.forEach((reply, index) => {
+    if (!reply.ok) {
+      console.warn(`⚠️ [ESPLORA] Could not look up spent transaction ${txids[index]}: ${reply.error.message}`);
+      return;
+    }
+    for (const output of (reply.result as RawTransaction).vout) {
+      prevouts.set(`${txids[index]}:${output.n}`, { value: output.value, scriptPubKey: output.scriptPubKey });
+    }
+  });
+  return prevouts;
+}
+
+// From getrawtransaction / getblock verbosity 2; prevouts fill in for inputs without one
+export function esploraTransaction(tx: RawTransaction, status: EsploraTxStatus, params?: NetworkParams, prevouts?: Prevouts): EsploraTransaction {
+  const vin = tx.vin.map((input): EsploraInput => {
+    if (input.coinbase !== undefined) {
+      return {
+        txid: '0'.repeat(64),
+        vout: 0xffffffff,
+        prevout: null,
+        scriptsig: input.coinbase,
+        scriptsig_asm: scriptAsm(Buffer.from(input.coinbase, 'hex')),
+        ...(input.txinwitness ? { witness: input.txinwitness } : {}),
+        is_coinbase: true,
+        sequence: input.sequence
+      };
+    }
+    const spent = spentOutput(input, prevouts);
+    const scriptSig = Buffer.from(input.scriptSig?.hex ?? '', 'hex');
+    const inner = spent
+      ? innerScripts(scriptSig, (input.txinwitness ?? []).map(item => Buffer.from(item, 'hex')), Buffer.from(spent.scriptPubKey.hex, 'hex'))
+      : {};
+    return {
+      txid: input.txid!,
+      vout: input.vout!,
+      prevout: spent ? esploraOutput(spent.value, spent.scriptPubKey, params) : null,
+      scriptsig: scriptSig.toString('hex'),
+      scriptsig_asm: scriptAsm(scriptSig),
+      ...(input.txinwitness ? { witness: input.txinwitness } : {}),
+      is_coinbase: false,
+      sequence: input.sequence,
+      ...(inner.redeemScript ? { inner_redeemscript_asm: scriptAsm(inner.redeemScript) } : {}),
+      ...(inner.witnessScript ? { inner_witnessscript_asm: scriptAsm(inner.witnessScript) } : {})
+    };
+  });
+  const vout = tx.vout.map(output => esploraOutput(output.value, output.scriptPubKey, params));
+
+  // The node's fee when it knows the prevouts, otherwise inputs minus outputs; null when a
+  // prevout is missing
+  let fee: number | null = 0;
+  if (tx.fee !== undefined) {
+    fee = Number(btcToSats(tx.fee));
+  } else if (!vin[0]?.is_coinbase) {
+    fee = vin.every(input => input.prevout)
+      ? vin.reduce((sum, input) => sum + input.prevout!.value, 0) - vout.reduce((sum, output) => sum + output.value, 0)
+      : null;
+  }
+
+  return {
+    txid: tx.txid,
+    version: tx.version,
+    locktime: tx.locktime,
+    vin,
+    vout,
+    size: tx.size,
+    weight: tx.weight,
+    fee,
+    status
+  };
+}
+
+// The status Esplora reports for a transaction from getrawtransaction, which gives the
+// block hash and time but not the height
+export async function transactionStatus(rpc: BitcoinRpcClient, tx: RawTransaction): Promise<EsploraTxStatus> {
+  if (!tx.blockhash) {
+    return { confirmed: false };
+  }
+  const header = await rpc.getBlockHeader(tx.blockhash);
+  return { confirmed: true, block_height: header.height, block_hash: tx.blockhash, block_time: tx.blocktime ?? header.time };
+}
+
+// /tx/:txid: the transaction with its prevouts and status
+export async function getEsploraTransaction(rpc: BitcoinRpcClient, txid: string, params?: NetworkParams): Promise<{ tx: RawTransaction; esplora: EsploraTransaction }> {
+  const tx = await rpc.call<RawTransaction>('getrawtransaction', [txid, 2]);
+  const [status, prevouts] = await Promise.all([transactionStatus(rpc, tx), resolvePrevouts(rpc, [tx])]);
+  return { tx, esplora: esploraTransaction(tx, status, params, prevouts) };
+}
+
+// One page of a block's transactions, fetched with a single batch rather than the whole block
+export async function blockTransactions(rpc: BitcoinRpcClient, block: BlockInfo, start: number, params?: NetworkParams): Promise<EsploraTransaction[]> {
+  const txids = block.tx.slice(start, start + BLOCK_TXS_PAGE);
+  const txs = await rpc.batch<RawTransaction[]>(txids.map(txid => ({ method: 'getrawtransaction', params: [txid, 2, block.hash] })));
+  const prevouts = await resolvePrevouts(rpc, txs);
+  const status: EsploraTxStatus = { confirmed: true, block_height: block.height, block_hash: block.hash, block_time: block.time };
+  return txs.map(tx => esploraTransaction(tx, status, params, prevouts));
+}
+
+// Electrum's blockchain.transaction.get_merkle shape, which Esplora's /tx/:txid/merkle-proof returns
+export interface ElectrumMerkleProof {
+  block_height: number;
+  // Sibling hashes from the leaf up, in txid (display) byte order
+  merkle: string[];
+  pos: number;
+}
+
+export function electrumMerkleProof(block: BlockInfo, txid: string): ElectrumMerkleProof {
+  const pos = block.tx.indexOf(txid);
+  if (pos === -1) {
+    throw new Error(`Transaction ${txid} is not in block ${block.hash}`);
+  }
+  const levels = buildMerkleTree(block.tx.map(txidToInternal));
+  return {
+    block_height: block.height,
+    merkle: merklePath(levels, pos).map(internalToTxid),
+    pos
+  };
+}
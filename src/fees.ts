@@ -0,0 +1,306 @@
+import { BitcoinRpcClient, FeeEstimateResult } from './rpc.js';
+import { InFlight } from './block-cache.js';
+
+export type EstimateMode = 'ECONOMICAL' | 'CONSERVATIVE';
+
+export interface FeeOptions {
+  // estimatesmartfee confirmation targets, in blocks
+  targets: number[];
+  // Lowest and highest rate ever recommended, sat/vB; no cap when undefined
+  floor: number;
+  cap?: number;
+  // Project the mempool (verbose getrawmempool) only up to this many transactions;
+  // larger mempools are left to getmempoolinfo and estimatesmartfee
+  mempoolMaxTxs: number;
+  cacheMs: number;
+}
+
+export function getFeeOptions(): FeeOptions {
+  return {
+    targets: (process.env.FEE_TARGETS || '1,3,6,144').split(',').map(Number).filter(target => target >= 1),
+    floor: Number(process.env.FEE_FLOOR_SAT_VB || 1),
+    cap: process.env.FEE_CAP_SAT_VB ? Number(process.env.FEE_CAP_SAT_VB) : undefined,
+    mempoolMaxTxs: Number(process.env.FEE_MEMPOOL_MAX_TXS || 5000),
+    cacheMs: Number(process.env.FEE_CACHE_MS || 10000)
+  };
+}
+
+// A block's weight limit in vbytes, less room for the coinbase
+const BLOCK_VSIZE = 999000;
+const PROJECTED_BLOCKS = 8;
+
+// mempool.space /api/v1/fees/recommended, in whole sat/vB
+export interface RecommendedFees {
+  fastestFee: number;
+  halfHourFee: number;
+  hourFee: number;
+  economyFee: number;
+  minimumFee: number;
+}
+
+export interface TargetEstimate {
+  target: number;
+  mode: EstimateMode;
+  // sat/vB, null when the node has too little data for this target
+  feeRate: number | null;
+  // Target the estimate is actually for, may be higher than requested
+  blocks?: number;
+  errors?: string[];
+}
+
+export interface ProjectedBlock {
+  vsize: number;
+  txCount: number;
+  minFee: number;
+  medianFee: number;
+  maxFee: number;
+}
+
+export interface MempoolView {
+  txCount: number;
+  vsize: number;
+  // getmempoolinfo's mempoolminfee and minrelaytxfee, in sat/vB
+  mempoolMinFee: number;
+  minRelayFee: number;
+  // [feeRate, vsize] buckets, highest rate first
+  histogram: [number, number][];
+  blocks: ProjectedBlock[];
+}
+
+export interface FeeReport extends RecommendedFees {
+  // Previous response fields, kept for existing clients
+  low: number;
+  medium: number;
+  high: number;
+  source: 'mempool' | 'estimatesmartfee' | 'floor';
+  estimates: TargetEstimate[];
+  mempool: MempoolView | null;
+  floor: number;
+  cap: number | null;
+  updatedAt: number;
+}
+
+interface MempoolInfo {
+  size: number;
+  bytes: number;
+  mempoolminfee: number;
+  minrelaytxfee: number;
+}
+
+interface MempoolEntry {
+  vsize: number;
+  ancestorsize: number;
+  descendantcount: number;
+  descendantsize: number;
+  fees: { modified: number; ancestor: number; descendant: number };
+}
+
+// BTC/kvB as sat/vB
+function satPerVbyte(btcPerKvb: number): number {
+  return btcPerKvb * 1e5;
+}
+
+function round(rate: number): number {
+  return Math.round(rate * 100) / 100;
+}
+
+// Upper edges of the histogram buckets, sat/vB (mempool.space uses similar steps)
+const HISTOGRAM_EDGES = [1, 2, 3, 4, 5, 6, 8, 10, 12, 15, 20, 30, 40, 50, 60, 70, 80, 90, 100, 125, 150, 175, 200, 250, 300, 350, 400, 500, 600, 700, 800, 900, 1000, 1200, 1400, 1600, 1800, 2000];
+
+// Effective rate of a mempool entry: a child is mined no earlier than its ancestors'
+// package allows, and a parent is pulled forward by the package its children pay for
+function effectiveRate(entry: MempoolEntry): number {
+  const own = satPerVbyte(entry.fees.modified * 1000 / entry.vsize);
+  const withAncestors = Math.min(own, satPerVbyte(entry.fees.ancestor * 1000 / entry.ancestorsize));
+  if (entry.descendantcount <= 1) {
+    return withAncestors;
+  }
+  return Math.max(withAncestors, satPerVbyte(entry.fees.descendant * 1000 / entry.descendantsize));
+}
+
+// Fills projected blocks highest rate first, the way a miner would
+export function projectMempool(entries: MempoolEntry[], info: MempoolInfo): MempoolView {
+  const rated = entries
+    .map(entry => ({ vsize: entry.vsize, rate: effectiveRate(entry) }))
+    .sort((a, b) => b.rate - a.rate);
+
+  const blocks: ProjectedBlock[] = [];
+  let current: { vsize: number; rates: number[] } = { vsize: 0, rates: [] };
+  const closeBlock = () => {
+    const { rates } = current;
+    blocks.push({
+      vsize: current.vsize,
+      txCount: rates.length,
+      minFee: round(rates[rates.length - 1]),
+      medianFee: round(rates[Math.floor(rates.length / 2)]),
+      maxFee: round(rates[0])
+    });
+    current = { vsize: 0, rates: [] };
+  };
+  for (const tx of rated) {
+    if (blocks.length === PROJECTED_BLOCKS) {
+      break;
+    }
+    if (current.vsize + tx.vsize > BLOCK_VSIZE && current.rates.length > 0) {
+      closeBlock();
+      if (blocks.length === PROJECTED_BLOCKS) {
+        break;
+      }
+    }
+    current.vsize += tx.vsize;
+    current.rates.push(tx.rate);
+  }
+  if (current.rates.length > 0 && blocks.length < PROJECTED_BLOCKS) {
+    closeBlock();
+  }
+
+  const histogram = new Map<number, number>();
+  for (const tx of rated) {
+    const edge = HISTOGRAM_EDGES.find(limit => tx.rate < limit) ?? HISTOGRAM_EDGES[HISTOGRAM_EDGES.length - 1];
+    histogram.set(edge, (histogram.get(edge) ?? 0) + tx.vsize);
+  }
+
+  return {
+    txCount: info.size,
+    vsize: rated.reduce((sum, tx) => sum + tx.vsize, 0),
+    mempoolMinFee: round(satPerVbyte(info.mempoolminfee)),
+    minRelayFee: round(satPerVbyte(info.minrelaytxfee)),
+    histogram: [...histogram.entries()].sort((a, b) => b[0] - a[0]),
+    blocks
+  };
+}
+
+// Fee to get into projected block n: its median when the block is at least half full,
+// otherwise anything above the minimum gets in
+function blockFee(view: MempoolView, index: number, minimum: number): number {
+  const block = view.blocks[index];
+  if (!block || block.vsize < BLOCK_VSIZE / 2) {
+    return minimum;
+  }
+  return Math.max(block.medianFee, minimum);
+}
+
+// Estimates from estimatesmartfee at several targets and both modes, plus a projection
+// of the node's mempool into the next blocks. Recommendations come from the mempool
+// view when there is one, else from the estimates, and always lie between floor and cap.
+export class FeeEstimator {
+  private readonly pending = new InFlight<FeeReport>();
+  private cached?: FeeReport;
+
+  constructor(
+    private readonly rpc: BitcoinRpcClient,
+    private readonly options: FeeOptions
+  ) {}
+
+  async report(): Promise<FeeReport> {
+    if (this.cached && Date.now() - this.cached.updatedAt < this.options.cacheMs) {
+      return this.cached;
+    }
+    this.cached = await this.pending.run('fees', () => this.build());
+    return this.cached;
+  }
+
+  private async estimates(): Promise<TargetEstimate[]> {
+    const requests = this.options.targets.flatMap(target =>
+      (['ECONOMICAL', 'CONSERVATIVE'] as EstimateMode[]).map(mode => ({ target, mode }))
+    );
+    const replies = await this.rpc.batchSettled(requests.map(({ target, mode }) => ({ method: 'estimatesmartfee', params: [target, mode] })));
+    return requests.map(({ target, mode }, index) => {
+      const reply = replies[index];
+      if (!reply.ok) {
+        return { target, mode, feeRate: null, errors: [reply.error.message] };
+      }
+      const estimate = reply.result as FeeEstimateResult;
+      return {
+        target,
+        mode,
+        feeRate: estimate.feerate !== undefined ? round(satPerVbyte(estimate.feerate)) : null,
+        blocks: estimate.blocks,
+        errors: estimate.errors
+      };
+    });
+  }
+
+  private async mempool(): Promise<{ info: MempoolInfo; view: MempoolView | null }> {
+    const info = await this.rpc.call<MempoolInfo>('getmempoolinfo');
+    if (info.size > this.options.mempoolMaxTxs) {
+      console.log(`💸 [FEES] Mempool has ${info.size} txs (> FEE_MEMPOOL_MAX_TXS), using estimatesmartfee only`);
+      return { info, view: null };
+    }
+    const entries = await this.rpc.call<Record<string, MempoolEntry>>('getrawmempool', [true]);
+    return { info, view: projectMempool(Object.values(entries), info) };
+  }
+
+  private async build(): Promise<FeeReport> {
+    const [estimated, projected] = await Promise.allSettled([this.estimates(), this.mempool()]);
+    if (estimated.status === 'rejected' && projected.status === 'rejected') {
+      throw estimated.reason;
+    }
+    if (projected.status === 'rejected') {
+      console.error('❌ [FEES] Mempool view unavailable:', projected.reason instanceof Error ? projected.reason.message : projected.reason);
+    }
+    const estimates = estimated.status === 'fulfilled' ? estimated.value : [];
+    const info = projected.status === 'fulfilled' ? projected.value.info : undefined;
+    const mempool = projected.status === 'fulfilled' ? projected.value.view : null;
+
+    // Nothing below what the node's mempool accepts is recommended; like mempool.space,
+    // the minimum is rounded up and the tiers to the nearest whole sat/vB
+    const { floor, cap } = this.options;
+    const clamp = (rate: number) => Math.min(Math.max(rate, floor), cap ?? Infinity);
+    const minimum = Math.ceil(clamp(info ? satPerVbyte(Math.max(info.mempoolminfee, info.minrelaytxfee)) : floor));
+
+    // The estimate for the closest configured target at or above the wanted one;
+    // conservative for the fast tiers, economical for the slow ones
+    const nearest = (target: number, mode: EstimateMode) => {
+      const candidates = estimates.filter(item => item.mode === mode && item.feeRate !== null && item.target >= target);
+      return candidates.sort((a, b) => a.target - b.target)[0]?.feeRate ?? null;
+    };
+
+    let source: FeeReport['source'];
+    let raw: Omit<RecommendedFees, 'minimumFee'>;
+    if (mempool) {
+      // Next block, the one after (~30 min) and the third (~1 hour), as mempool.space does
+      source = 'mempool';
+      raw = {
+        fastestFee: blockFee(mempool, 0, minimum),
+        halfHourFee: blockFee(mempool, 1, minimum),
+        hourFee: blockFee(mempool, 2, minimum),
+        economyFee: Math.min(2 * minimum, blockFee(mempool, 2, minimum))
+      };
+    } else if (estimates.some(item => item.feeRate !== null)) {
+      source = 'estimatesmartfee';
+      raw = {
+        fastestFee: nearest(1, 'CONSERVATIVE') ?? minimum,
+        halfHourFee: nearest(3, 'CONSERVATIVE') ?? minimum,
+        hourFee: nearest(6, 'ECONOMICAL') ?? minimum,
+        economyFee: nearest(144, 'ECONOMICAL') ?? minimum
+      };
+    } else {
+      source = 'floor';
+      raw = { fastestFee: minimum, halfHourFee: minimum, hourFee: minimum, economyFee: minimum };
+    }
+
+    // Each tier at least as high as the slower ones below it
+    const economyFee = Math.max(Math.round(clamp(raw.economyFee)), minimum);
+    const hourFee = Math.max(Math.round(clamp(raw.hourFee)), economyFee);
+    const halfHourFee = Math.max(Math.round(clamp(raw.halfHourFee)), hourFee);
+    const fastestFee = Math.max(Math.round(clamp(raw.fastestFee)), halfHourFee);
+
+    return {
+      fastestFee,
+      halfHourFee,
+      hourFee,
+      economyFee,
+      minimumFee: minimum,
+      low: hourFee,
+      medium: halfHourFee,
+      high: fastestFee,
+      source,
+      estimates,
+      mempool,
+      floor,
+      cap: cap ?? null,
+      updatedAt: Date.now()
+    };
+  }
+}
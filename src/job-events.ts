@@ -0,0 +1,79 @@
+import { EventEmitter } from 'events';
+import { StateMap, StateStore } from './store.js';
+
+// Steps of a Kenny proof run, in the order they happen
+export type KennyPhase =
+  | 'looking_up_tx'
+  | 'block_height_resolved'
+  | 'bitcoin_tx_proof_running'
+  | 'fetching_rpc_detail'
+  | 'completed'
+  | 'failed';
+
+export type KennyPhaseListener = (phase: KennyPhase, data?: Record<string, unknown>) => void;
+
+const PHASE_MESSAGES: Record<KennyPhase, string> = {
+  looking_up_tx: 'Looking up transaction',
+  block_height_resolved: 'Block height resolved',
+  bitcoin_tx_proof_running: 'bitcoinTxProof running',
+  fetching_rpc_detail: 'Fetching RPC transaction detail',
+  completed: 'Completed',
+  failed: 'Failed'
+};
+
+export interface JobEvent {
+  // Sequence number within the job, used as the SSE id for Last-Event-ID resume
+  id: number;
+  phase: KennyPhase;
+  message: string;
+  data?: Record<string, unknown>;
+  at: number;
+}
+
+export function isTerminalPhase(phase: KennyPhase): boolean {
+  return phase === 'completed' || phase === 'failed';
+}
+
+// Per-job progress events. The log is kept in the state store so a client can
+// resume from any worker; listeners on this process are woken up on each append.
+export class JobEventLog {
+  private readonly logs: StateMap<JobEvent[]>;
+  private readonly emitter = new EventEmitter();
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(store: StateStore, namespace: string, options: { ttlMs?: number; maxEntries?: number } = {}) {
+    this.logs = new StateMap<JobEvent[]>(store, namespace, options);
+    this.emitter.setMaxListeners(0);
+  }
+
+  // Appends are serialized so events keep their order even when not awaited
+  append(jobId: string, phase: KennyPhase, data?: Record<string, unknown>): Promise<JobEvent> {
+    const write = this.writes.then(async () => {
+      const events = (await this.logs.get(jobId)) ?? [];
+      const event: JobEvent = { id: events.length + 1, phase, message: PHASE_MESSAGES[phase], data, at: Date.now() };
+      await this.logs.set(jobId, [...events, event]);
+      this.emitter.emit(jobId, event);
+      return event;
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async exists(jobId: string): Promise<boolean> {
+    return this.logs.has(jobId);
+  }
+
+  async since(jobId: string, lastEventId = 0): Promise<JobEvent[]> {
+    return ((await this.logs.get(jobId)) ?? []).filter(event => event.id > lastEventId);
+  }
+
+  // Returns the unsubscribe function
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    this.emitter.on(jobId, listener);
+    return () => this.emitter.off(jobId, listener);
+  }
+
+  clear(): Promise<void> {
+    return this.logs.clear();
+  }
+}
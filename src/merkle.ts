@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+
+// All hashes here are in internal byte order (as they appear in headers and
+// as the Clarity contracts hash them), unless a function says otherwise.
+
+export function sha256(data: Buffer): Buffer {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+export function sha256d(data: Buffer): Buffer {
+  return sha256(sha256(data));
+}
+
+export function reverseHex(hex: string): string {
+  return Buffer.from(hex, 'hex').reverse().toString('hex');
+}
+
+// Display-order txid (as the node prints it) to internal byte order
+export function txidToInternal(txid: string): Buffer {
+  return Buffer.from(txid, 'hex').reverse();
+}
+
+export function internalToTxid(hash: Buffer): string {
+  return Buffer.from(hash).reverse().toString('hex');
+}
+
+// Accepts a list of hex hashes or one concatenated hex string (bitcoin-tx-proof style)
+export function toHashList(value: unknown): Buffer[] {
+  if (Array.isArray(value)) {
+    return value.map(item => Buffer.from(String(item).replace(/^0x/, ''), 'hex'));
+  }
+  if (typeof value === 'string') {
+    const hex = value.replace(/^0x/, '');
+    const hashes: Buffer[] = [];
+    for (let i = 0; i < hex.length; i += 64) {
+      hashes.push(Buffer.from(hex.slice(i, i + 64), 'hex'));
+    }
+    return hashes;
+  }
+  return [];
+}
+
+// Levels from leaves (index 0) to root; odd levels duplicate their last hash
+export function buildMerkleTree(leaves: Buffer[]): Buffer[][] {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a merkle tree without leaves');
+  }
+
+  const levels: Buffer[][] = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1] ?? level[i];
+      next.push(sha256d(Buffer.concat([left, right])));
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function merkleRoot(levels: Buffer[][]): Buffer {
+  return levels[levels.length - 1][0];
+}
+
+// Sibling hashes from leaf to root for the leaf at `index`
+export function merklePath(levels: Buffer[][], index: number): Buffer[] {
+  const path: Buffer[] = [];
+  let position = index;
+  for (let depth = 0; depth < levels.length - 1; depth++) {
+    const level = levels[depth];
+    const sibling = position % 2 === 0 ? level[position + 1] ?? level[position] : level[position - 1];
+    path.push(sibling);
+    position = Math.floor(position / 2);
+  }
+  return path;
+}
+
+// Same walk as verify-merkle-proof in clarity-bitcoin: bit i of the index says whether
+// the current hash is the right-hand child at depth i
+export function merkleRootFromPath(leaf: Buffer, index: number, path: Buffer[]): Buffer {
+  let current = leaf;
+  for (let depth = 0; depth < path.length; depth++) {
+    const isRight = ((index >> depth) & 1) === 1;
+    current = isRight
+      ? sha256d(Buffer.concat([path[depth], current]))
+      : sha256d(Buffer.concat([current, path[depth]]));
+  }
+  return current;
+}
+
+// Header fields are little-endian; the merkle root sits at bytes 36..68
+export function headerMerkleRoot(headerHex: string): Buffer {
+  const header = Buffer.from(headerHex.replace(/^0x/, ''), 'hex');
+  if (header.length !== 80) {
+    throw new Error(`Block header must be 80 bytes, got ${header.length}`);
+  }
+  return header.subarray(36, 68);
+}
+
+export function headerHash(headerHex: string): string {
+  return internalToTxid(sha256d(Buffer.from(headerHex.replace(/^0x/, ''), 'hex')));
+}
@@ -0,0 +1,132 @@
+import { BitcoinRpcClient, BlockWithTransactions } from './rpc.js';
+import type { BlockCache } from './block-cache.js';
+import { buildMerkleTree, merklePath, merkleRoot, txidToInternal } from './merkle.js';
+import { hasWitness, parseTransaction, strippedHex } from './tx.js';
+import { extractWitnessCommitment } from './verify.js';
+
+const ZERO_HASH = Buffer.alloc(32);
+
+// Proof computed directly from the node's block data. Field names follow the
+// Kenny/Friedger proof format so readProofFields and verifyProof understand it.
+export interface NativeProof {
+  segwit: boolean;
+  txid: string;
+  wtxid: string;
+  height: number;
+  blockHash: string;
+  header: string;
+  txIndex: number;
+  treeDepth: number;
+  txHex: string;
+  txStrippedHex: string;
+  merkleProof: string[];
+  hasWitnessCommitment: boolean;
+  witnessMerkleRoot?: string;
+  witnessMerkleProof: string[];
+  witnessReservedValue: string;
+  ctxHex: string;
+  coinbaseMerkleProof: string[];
+}
+
+// What a proof needs from one block, built once and shared by every proof taken from it.
+// Only the coinbase is kept in full, so a cached context is far smaller than the block.
+export interface BlockProofContext {
+  hash: string;
+  height: number;
+  headerHex: string;
+  // Display order, as the node reports them
+  txids: string[];
+  wtxids: string[];
+  indexByTxid: Map<string, number>;
+  txidLevels: Buffer[][];
+  wtxidLevels?: Buffer[][];
+  coinbaseHex: string;
+  ctxHex: string;
+  witnessReservedValue: string;
+}
+
+export function prepareBlock(block: BlockWithTransactions, headerHex: string): BlockProofContext {
+  const coinbase = parseTransaction(block.tx[0].hex);
+  const ctxHex = strippedHex(coinbase);
+
+  // The witness tree uses wtxids, with the coinbase's replaced by zeros
+  const wtxidLevels = extractWitnessCommitment(ctxHex) !== null
+    ? buildMerkleTree(block.tx.map((item, index) => index === 0 ? ZERO_HASH : txidToInternal(item.hash)))
+    : undefined;
+
+  const reservedValue = coinbase.inputs[0]?.witness[0];
+
+  return {
+    hash: block.hash,
+    height: block.height,
+    headerHex,
+    txids: block.tx.map(item => item.txid),
+    wtxids: block.tx.map(item => item.hash),
+    indexByTxid: new Map(block.tx.map((item, index) => [item.txid, index])),
+    txidLevels: buildMerkleTree(block.tx.map(item => txidToInternal(item.txid))),
+    wtxidLevels,
+    coinbaseHex: block.tx[0].hex,
+    ctxHex,
+    witnessReservedValue: (reservedValue && reservedValue.length === 32 ? reservedValue : ZERO_HASH).toString('hex')
+  };
+}
+
+// txHex is the full serialization of txid, which the context does not keep
+export function proofFromBlock(context: BlockProofContext, txid: string, txHex: string): NativeProof {
+  const { txidLevels, wtxidLevels } = context;
+  const txIndex = context.indexByTxid.get(txid);
+  if (txIndex === undefined) {
+    throw new Error(`Transaction ${txid} is not in block ${context.hash}`);
+  }
+
+  const tx = parseTransaction(txHex);
+  const hasWitnessCommitment = wtxidLevels !== undefined;
+
+  return {
+    segwit: hasWitness(tx) && hasWitnessCommitment,
+    txid,
+    wtxid: context.wtxids[txIndex],
+    height: context.height,
+    blockHash: context.hash,
+    header: context.headerHex,
+    txIndex,
+    treeDepth: txidLevels.length - 1,
+    txHex,
+    txStrippedHex: strippedHex(tx),
+    merkleProof: merklePath(txidLevels, txIndex).map(hash => hash.toString('hex')),
+    hasWitnessCommitment,
+    witnessMerkleRoot: wtxidLevels ? merkleRoot(wtxidLevels).toString('hex') : undefined,
+    witnessMerkleProof: wtxidLevels ? merklePath(wtxidLevels, txIndex).map(hash => hash.toString('hex')) : [],
+    witnessReservedValue: context.witnessReservedValue,
+    ctxHex: context.ctxHex,
+    coinbaseMerkleProof: merklePath(txidLevels, 0).map(hash => hash.toString('hex'))
+  };
+}
+
+export function computeNativeProof(txid: string, block: BlockWithTransactions, headerHex: string): NativeProof {
+  const entry = block.tx.find(item => item.txid === txid);
+  if (!entry) {
+    throw new Error(`Transaction ${txid} is not in block ${block.hash}`);
+  }
+  return proofFromBlock(prepareBlock(block, headerHex), txid, entry.hex);
+}
+
+// Block data comes from the shared block cache; only the tx itself is fetched per proof
+export async function getNativeProof(rpc: BitcoinRpcClient, blocks: BlockCache, txid: string, blockHash?: string): Promise<NativeProof> {
+  let hash = blockHash;
+  let txHex: string | undefined;
+  if (!hash) {
+    const tx = await rpc.getRawTransaction(txid);
+    if (!tx.blockhash) {
+      throw new Error('Transaction not confirmed');
+    }
+    hash = tx.blockhash;
+    txHex = tx.hex;
+  }
+
+  const [context, hex] = await Promise.all([
+    blocks.get(hash),
+    txHex ?? rpc.getRawTransactionHex(txid, hash)
+  ]);
+  return proofFromBlock(context, txid, hex);
+}
@@ -0,0 +1,185 @@
+import { BitcoinRpcClient, RpcConfig, getRpcConfig } from './rpc.js';
+import { decodeBase58Address, decodeSegwitAddress, encodeBase58Address, encodeSegwitAddress } from './address.js';
+
+// Chain names as getblockchaininfo reports them
+export type Chain = 'main' | 'test' | 'testnet4' | 'signet' | 'regtest';
+
+export interface NetworkParams {
+  chain: Chain;
+  // Name used in paths and responses
+  name: string;
+  bech32Hrp: string;
+  p2pkhVersion: number;
+  p2shVersion: number;
+  defaultRpcPort: number;
+}
+
+export const NETWORK_PARAMS: Record<Chain, NetworkParams> = {
+  main: { chain: 'main', name: 'mainnet', bech32Hrp: 'bc', p2pkhVersion: 0x00, p2shVersion: 0x05, defaultRpcPort: 8332 },
+  test: { chain: 'test', name: 'testnet', bech32Hrp: 'tb', p2pkhVersion: 0x6f, p2shVersion: 0xc4, defaultRpcPort: 18332 },
+  testnet4: { chain: 'testnet4', name: 'testnet4', bech32Hrp: 'tb', p2pkhVersion: 0x6f, p2shVersion: 0xc4, defaultRpcPort: 48332 },
+  signet: { chain: 'signet', name: 'signet', bech32Hrp: 'tb', p2pkhVersion: 0x6f, p2shVersion: 0xc4, defaultRpcPort: 38332 },
+  regtest: { chain: 'regtest', name: 'regtest', bech32Hrp: 'bcrt', p2pkhVersion: 0x6f, p2shVersion: 0xc4, defaultRpcPort: 18443 }
+};
+
+// Accepts path names (mainnet, testnet, testnet3) as well as chain names (main, test)
+export function parseChain(name: string): Chain | undefined {
+  const normalized = name.toLowerCase();
+  if (normalized === 'mainnet') {
+    return 'main';
+  }
+  if (normalized === 'testnet' || normalized === 'testnet3') {
+    return 'test';
+  }
+  return (Object.keys(NETWORK_PARAMS) as Chain[]).find(chain => chain === normalized);
+}
+
+// Stacks anchors mainnet to Bitcoin mainnet and its testnet to every Bitcoin test network
+export function stacksNetworkFor(params: NetworkParams): 'mainnet' | 'testnet' {
+  return params.chain === 'main' ? 'mainnet' : 'testnet';
+}
+
+export interface NetworkConfig {
+  // Path prefix, e.g. "testnet4" for /testnet4/api/...; undefined for the single unprefixed network
+  name?: string;
+  // The chain the node must be on; detected when not configured
+  expectedChain?: Chain;
+  rpc: RpcConfig;
+}
+
+// NETWORKS=mainnet,testnet4 serves each network under /<name>/api/..., with the first one
+// also unprefixed, and reads its RPC settings from <NAME>_RPC_HOST, <NAME>_RPC_PORT, ...
+// Without NETWORKS there is one network from RPC_*, its chain detected from the node
+// (or checked against BITCOIN_NETWORK when set).
+export function getNetworkConfigs(): NetworkConfig[] {
+  const names = (process.env.NETWORKS || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+
+  if (names.length === 0) {
+    const expected = process.env.BITCOIN_NETWORK;
+    const expectedChain = expected ? parseChain(expected) : undefined;
+    if (expected && !expectedChain) {
+      throw new Error(`Unknown BITCOIN_NETWORK "${expected}", expected one of: ${Object.values(NETWORK_PARAMS).map(params => params.name).join(', ')}`);
+    }
+    return [{ expectedChain, rpc: getRpcConfig('', expectedChain ? NETWORK_PARAMS[expectedChain].defaultRpcPort : undefined) }];
+  }
+
+  return names.map(name => {
+    const chain = parseChain(name);
+    if (!chain) {
+      throw new Error(`Unknown network "${name}" in NETWORKS, expected one of: ${Object.values(NETWORK_PARAMS).map(params => params.name).join(', ')}`);
+    }
+    return {
+      name,
+      expectedChain: chain,
+      rpc: getRpcConfig(`${name.toUpperCase()}_`, NETWORK_PARAMS[chain].defaultRpcPort)
+    };
+  });
+}
+
+export interface ChainInfo {
+  chain: Chain;
+  blocks: number;
+  headers: number;
+  bestBlockHash: string;
+  initialBlockDownload: boolean;
+  verificationProgress: number;
+}
+
+export async function detectChain(rpc: BitcoinRpcClient): Promise<ChainInfo> {
+  const info = await rpc.getBlockchainInfo();
+
+  const chain = parseChain(info.chain);
+  if (!chain) {
+    throw new Error(`Node reports unknown chain "${info.chain}"`);
+  }
+  return {
+    chain,
+    blocks: info.blocks,
+    headers: info.headers,
+    bestBlockHash: info.bestblockhash,
+    initialBlockDownload: info.initialblockdownload,
+    verificationProgress: info.verificationprogress
+  };
+}
+
+export type AddressType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr' | 'witness_unknown';
+
+export interface AddressValidation {
+  valid: boolean;
+  type?: AddressType;
+  reason?: string;
+}
+
+// Networks whose addresses share a prefix with the given one, for error messages
+function networksFor(match: (params: NetworkParams) => boolean): string {
+  return Object.values(NETWORK_PARAMS).filter(match).map(params => params.name).join('/') || 'an unknown network';
+}
+
+// Checks the address decodes and carries this network's bech32 prefix or base58 version.
+// testnet, testnet4 and signet share their prefixes, so they cannot be told apart.
+export function validateAddress(address: string, params: NetworkParams): AddressValidation {
+  const segwit = decodeSegwitAddress(address);
+  if (segwit) {
+    if (segwit.hrp !== params.bech32Hrp) {
+      return { valid: false, reason: `Address is for ${networksFor(other => other.bech32Hrp === segwit.hrp)}, this node is on ${params.name}` };
+    }
+    const type: AddressType = segwit.version === 0
+      ? (segwit.program.length === 20 ? 'p2wpkh' : 'p2wsh')
+      : segwit.version === 1 && segwit.program.length === 32 ? 'p2tr' : 'witness_unknown';
+    return { valid: true, type };
+  }
+
+  const base58 = decodeBase58Address(address);
+  if (base58) {
+    if (base58.version === params.p2pkhVersion) {
+      return { valid: true, type: 'p2pkh' };
+    }
+    if (base58.version === params.p2shVersion) {
+      return { valid: true, type: 'p2sh' };
+    }
+    return {
+      valid: false,
+      reason: `Address is for ${networksFor(other => other.p2pkhVersion === base58.version || other.p2shVersion === base58.version)}, this node is on ${params.name}`
+    };
+  }
+
+  return { valid: false, reason: 'Not a valid bech32, bech32m or base58check address' };
+}
+
+// The scriptPubKey paying an address of this network, undefined for an invalid one
+export function outputScript(address: string, params: NetworkParams): Buffer | undefined {
+  if (!validateAddress(address, params).valid) {
+    return undefined;
+  }
+  const segwit = decodeSegwitAddress(address);
+  if (segwit) {
+    // OP_0 or OP_1..OP_16, then the program as one push
+    return Buffer.concat([Buffer.from([segwit.version === 0 ? 0x00 : 0x50 + segwit.version, segwit.program.length]), segwit.program]);
+  }
+  const { version, hash } = decodeBase58Address(address)!;
+  return version === params.p2pkhVersion
+    ? Buffer.concat([Buffer.from([0x76, 0xa9, 0x14]), hash, Buffer.from([0x88, 0xac])])
+    : Buffer.concat([Buffer.from([0xa9, 0x14]), hash, Buffer.from([0x87])]);
+}
+
+// The address of this network an output script pays, undefined for scripts without one
+// (P2PK, bare multisig, OP_RETURN, non-standard)
+export function scriptAddress(script: Buffer, params: NetworkParams): string | undefined {
+  const hex = script.toString('hex');
+  if (/^76a914[0-9a-f]{40}88ac$/.test(hex)) {
+    return encodeBase58Address(params.p2pkhVersion, script.subarray(3, 23));
+  }
+  if (/^a914[0-9a-f]{40}87$/.test(hex)) {
+    return encodeBase58Address(params.p2shVersion, script.subarray(2, 22));
+  }
+  // Witness program: OP_0 or OP_1..OP_16, then a single 2-40 byte push
+  const version = script[0] === 0x00 ? 0 : script[0] >= 0x51 && script[0] <= 0x60 ? script[0] - 0x50 : -1;
+  if (version >= 0 && script.length >= 4 && script.length <= 42 && script[1] === script.length - 2) {
+    const program = script.subarray(2);
+    if (version === 0 && program.length !== 20 && program.length !== 32) {
+      return undefined;
+    }
+    return encodeSegwitAddress(params.bech32Hrp, version, program);
+  }
+  return undefined;
+}
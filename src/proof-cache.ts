@@ -0,0 +1,67 @@
+import { StateMap, StateStore } from './store.js';
+
+export interface CachedBlock {
+  blockHash: string;
+  height: number;
+}
+
+export interface TrackedProof extends CachedBlock {
+  txid: string;
+}
+
+// Proofs cached per (txid, blockhash), with a txid index naming the block the
+// cached proof belongs to. A reorg moves the tx to another block, so the
+// entry is only valid while that block is on the main chain (see ReorgWatcher).
+export class ProofCache<T extends CachedBlock = any> {
+  private readonly proofs: StateMap<T>;
+  private readonly blocks: StateMap<CachedBlock>;
+
+  constructor(store: StateStore, namespace: string, options: { ttlMs?: number; maxEntries?: number } = {}) {
+    this.proofs = new StateMap<T>(store, namespace, options);
+    this.blocks = new StateMap<CachedBlock>(store, `${namespace}-blocks`, options);
+  }
+
+  async get(txid: string): Promise<T | undefined> {
+    const block = await this.blocks.get(txid);
+    return block ? this.proofs.get(`${txid}:${block.blockHash}`) : undefined;
+  }
+
+  async has(txid: string): Promise<boolean> {
+    return (await this.get(txid)) !== undefined;
+  }
+
+  async set(txid: string, proof: T): Promise<void> {
+    const previous = await this.blocks.get(txid);
+    await this.proofs.set(`${txid}:${proof.blockHash}`, proof);
+    await this.blocks.set(txid, { blockHash: proof.blockHash, height: proof.height });
+    if (previous && previous.blockHash !== proof.blockHash) {
+      await this.proofs.delete(`${txid}:${previous.blockHash}`);
+    }
+  }
+
+  async delete(txid: string): Promise<void> {
+    const block = await this.blocks.get(txid);
+    if (block) {
+      await this.proofs.delete(`${txid}:${block.blockHash}`);
+    }
+    await this.blocks.delete(txid);
+  }
+
+  async clear(): Promise<void> {
+    await this.proofs.clear();
+    await this.blocks.clear();
+  }
+
+  // Every cached txid with the block its proof was built against
+  async tracked(): Promise<TrackedProof[]> {
+    const txids = await this.blocks.keys();
+    const tracked: TrackedProof[] = [];
+    for (const txid of txids) {
+      const block = await this.blocks.get(txid);
+      if (block) {
+        tracked.push({ txid, ...block });
+      }
+    }
+    return tracked;
+  }
+}
@@ -0,0 +1,316 @@
+import { getProofData, getProofGenerationData, extractProofInfo } from 'clarity-bitcoin-client';
+import { BitcoinRpcClient, BlockInfo, RawTransaction } from './rpc.js';
+import { getNativeProof } from './native-proof.js';
+import { BlockCache } from './block-cache.js';
+import { ProofVerification, extractWitnessCommitment } from './verify.js';
+import { KennyPhaseListener } from './job-events.js';
+import { buildMerkleTree, merklePath, txidToInternal } from './merkle.js';
+import { ParsedTransaction, hasWitness, serializeTransaction, serializeWitness, strippedHex, transactionFromRpc } from './tx.js';
+
+export interface ProofRequest {
+  txid: string;
+  blockHash: string;
+  // Already fetched by the caller, so providers need not fetch them again
+  blockHeight?: number;
+  tx?: RawTransaction;
+  // Progress callback for providers that report phases (the Kenny SSE stream)
+  onPhase?: KennyPhaseListener;
+}
+
+export interface ProofProvider {
+  readonly name: string;
+  getProof(request: ProofRequest): Promise<any>;
+}
+
+export interface ProviderAttempt {
+  provider: string;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ProviderStats {
+  successes: number;
+  failures: number;
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+}
+
+export interface ProviderChainResult {
+  proof: any;
+  provider: string;
+  verification: ProofVerification;
+  attempts: ProviderAttempt[];
+}
+
+// Every provider in the chain failed. `unverified` holds the first proof that was
+// produced but failed self-verification, if any.
+export class ProofProvidersExhaustedError extends Error {
+  constructor(
+    public readonly attempts: ProviderAttempt[],
+    public readonly lastError: unknown,
+    public readonly unverified?: Omit<ProviderChainResult, 'attempts'>
+  ) {
+    super(`All proof providers failed: ${attempts.map(attempt => `${attempt.provider}: ${attempt.error}`).join('; ')}`);
+    this.name = 'ProofProvidersExhaustedError';
+  }
+}
+
+export type ProofVerifier = (request: ProofRequest, proof: any) => Promise<ProofVerification>;
+
+// Tries providers in order until one produces a proof that passes verification
+export class ProofProviderChain {
+  private readonly providers = new Map<string, ProofProvider>();
+  private readonly counters = new Map<string, ProviderStats>();
+
+  constructor(
+    providers: ProofProvider[],
+    readonly order: string[],
+    private readonly verify: ProofVerifier
+  ) {
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+      this.counters.set(provider.name, { successes: 0, failures: 0 });
+    }
+    for (const name of order) {
+      if (!this.providers.has(name)) {
+        throw new Error(`Unknown proof provider "${name}", expected one of: ${this.names().join(', ')}`);
+      }
+    }
+  }
+
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  stats(): Record<string, ProviderStats> {
+    return Object.fromEntries(this.counters);
+  }
+
+  private record(name: string, ok: boolean, error?: string) {
+    const stats = this.counters.get(name)!;
+    if (ok) {
+      stats.successes++;
+      stats.lastSuccessAt = new Date().toISOString();
+    } else {
+      stats.failures++;
+      stats.lastError = error;
+      stats.lastFailureAt = new Date().toISOString();
+    }
+  }
+
+  async getProof(request: ProofRequest, only?: string): Promise<ProviderChainResult> {
+    const order = only ? [only] : this.order;
+    const attempts: ProviderAttempt[] = [];
+    let lastError: unknown;
+    let unverified: Omit<ProviderChainResult, 'attempts'> | undefined;
+
+    for (const name of order) {
+      const provider = this.providers.get(name);
+      if (!provider) {
+        throw new Error(`Unknown proof provider "${name}"`);
+      }
+
+      const start = Date.now();
+      console.log(`🔄 [PROVIDERS] Trying ${name} for txid: ${request.txid}`);
+
+      try {
+        const proof = await provider.getProof(request);
+        const verification = await this.verify(request, proof);
+
+        if (!verification.verified) {
+          const error = `proof failed verification: ${verification.reason}`;
+          attempts.push({ provider: name, ok: false, error, durationMs: Date.now() - start });
+          this.record(name, false, error);
+          unverified = unverified ?? { proof, provider: name, verification };
+          console.error(`🚨 [PROVIDERS] ${name} produced an invalid proof for ${request.txid}: ${verification.reason}`);
+          continue;
+        }
+
+        attempts.push({ provider: name, ok: true, durationMs: Date.now() - start });
+        this.record(name, true);
+        console.log(`✅ [PROVIDERS] ${name} succeeded for txid: ${request.txid}`);
+        return { proof, provider: name, verification, attempts };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        attempts.push({ provider: name, ok: false, error: message, durationMs: Date.now() - start });
+        this.record(name, false, message);
+        lastError = error;
+        console.error(`❌ [PROVIDERS] ${name} failed for txid: ${request.txid}: ${message}`);
+      }
+    }
+
+    throw new ProofProvidersExhaustedError(attempts, lastError, unverified);
+  }
+}
+
+// PROOF_PROVIDERS=native,clarity-bitcoin-client,bitcoin-tx-proof; native reads the block cache,
+// the other two fetch the block from the node for every proof
+export function getProviderOrder(): string[] {
+  return (process.env.PROOF_PROVIDERS || 'native,clarity-bitcoin-client,bitcoin-tx-proof')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+export class ClarityBitcoinClientProvider implements ProofProvider {
+  readonly name = 'clarity-bitcoin-client';
+
+  constructor(private readonly rpc: BitcoinRpcClient) {}
+
+  async getProof({ txid, blockHash }: ProofRequest): Promise<any> {
+    console.log(`🔄 [PROOF] About to call getProofData from clarity-bitcoin-client...`);
+
+    let data;
+    try {
+      const rpcParams = this.rpc.clarityParams();
+      data = await getProofData(txid, blockHash, rpcParams);
+    } catch (proofError: unknown) {
+      throw new Error(`Failed to retrieve proof generation data for txid: ${txid} - wrapped error: ${(proofError as Error).message}`);
+    }
+
+    let pgd;
+    try {
+      pgd = getProofGenerationData(data);
+      console.log("✅ [PROOF] getProofGenerationData completed");
+    } catch (pgdError: unknown) {
+      throw new Error(`Failed during proof generation: ${(pgdError as Error).message}`);
+    }
+
+    try {
+      const proof = extractProofInfo(pgd, data);
+      console.log("✅ [PROOF] extractProofInfo completed");
+      return proof;
+    } catch (extractError: unknown) {
+      throw new Error(`Failed during proof extraction: ${(extractError as Error).message}`);
+    }
+  }
+}
+
+// Kenny's bitcoin-tx-proof combined with the node's transaction data (Friedger's method)
+export class BitcoinTxProofProvider implements ProofProvider {
+  readonly name = 'bitcoin-tx-proof';
+
+  constructor(private readonly rpc: BitcoinRpcClient) {}
+
+  async getProof({ txid, blockHash, blockHeight: knownHeight, tx: knownTx, onPhase }: ProofRequest): Promise<any> {
+    // Kenny needs the block height
+    const blockHeight = knownHeight ?? (await this.rpc.getBlockHeader(blockHash)).height;
+    console.log(`✅ [KENNY] Found block height: ${blockHeight}, blockhash: ${blockHash}`);
+    onPhase?.('block_height_resolved', { blockHeight, blockHash });
+
+    // Now get the detailed transaction data using RPC (this is Friedger's key insight)
+    console.log(`🔄 [KENNY] Getting detailed transaction data via RPC...`);
+    onPhase?.('fetching_rpc_detail');
+
+    // The caller's lookup is reused when it is for this block
+    const tx = knownTx?.blockhash === blockHash ? knownTx : await this.rpc.getRawTransaction(txid, blockHash);
+    const rebuilt = transactionFromRpc(tx);
+
+    console.log("✅ [KENNY] Got detailed transaction data via RPC");
+
+    // A block holding a witness transaction must carry a witness commitment (BIP141), so only
+    // transactions without witness data can be in a block without one; they get a legacy proof
+    if (!hasWitness(rebuilt)) {
+      return this.legacyProof(txid, blockHash, blockHeight, rebuilt);
+    }
+
+    // Import Kenny's tool
+    const { bitcoinTxProof } = await import('bitcoin-tx-proof');
+
+    // Call Kenny's bitcoinTxProof function
+    console.log(`🔄 [KENNY] Calling Kenny's bitcoinTxProof for block height ${blockHeight}...`);
+    onPhase?.('bitcoin_tx_proof_running', { blockHeight });
+    const proof = await bitcoinTxProof(txid, blockHeight, this.rpc.txProofConfig());
+
+    if (!proof.witnessMerkleProof || proof.witnessMerkleProof.length === 0) {
+      throw new Error(`Kenny returned empty witnessMerkleProof - likely ES module import issue`);
+    }
+
+    console.log("✅ [KENNY] Kenny's bitcoinTxProof completed successfully");
+    console.log(`✅ [KENNY] Proof keys:`, Object.keys(proof));
+
+    // Witness data as the segwit Clarity functions take it: per input, the item count and each
+    // item with its CompactSize length. Rebuilding the whole transaction checked it against the node.
+    const witnessData = serializeWitness(rebuilt).toString('hex');
+    console.log(`✅ [KENNY] Calculated witness data: ${witnessData.length} chars`);
+
+    // Return the formatted proof matching Friedger's exact structure
+    const formattedProof = {
+      // Standard proof fields
+      segwit: true,
+      hasWitnessCommitment: true,
+      height: proof.blockHeight,
+      header: proof.blockHeader,
+      txIndex: proof.txIndex,
+      treeDepth: proof.merkleProofDepth,
+
+      // SegWit proof chunks for Clarity (chunked for size limits)
+      computedWtxidRoot: proof.witnessMerkleRoot, // Use Kenny's computed root directly
+      ctxHex: proof.legacyCoinbaseTxHex, // Kenny's coinbase transaction
+
+      // Friedger's method: Include RPC transaction data directly
+      rpcTx: tx,
+      witnessDataCalculated: witnessData,
+
+      // Additional Kenny properties for compatibility
+      witnessMerkleRoot: proof.witnessMerkleRoot,
+      witnessMerkleProof: proof.witnessMerkleProof,
+      witnessReservedValue: proof.witnessReservedValue,
+      legacyCoinbaseTxHex: proof.legacyCoinbaseTxHex, // Legacy name compatibility
+      coinbaseMerkleProof: proof.coinbaseMerkleProof
+    };
+
+    console.log(`✅ [KENNY] Final proof: height=${formattedProof.height}, txIndex=${formattedProof.txIndex}, witnessData=${witnessData.length} chars`);
+    return formattedProof;
+  }
+
+  // Proof for was-tx-mined-compact: the txid path to the header merkle root and the stripped
+  // transaction, built from the block's txids since bitcoin-tx-proof only does segwit proofs
+  private async legacyProof(txid: string, blockHash: string, height: number, tx: ParsedTransaction) {
+    const [block, header] = await this.rpc.batch<[BlockInfo, string]>([
+      { method: 'getblock', params: [blockHash, 1] },
+      { method: 'getblockheader', params: [blockHash, false] }
+    ]);
+    const txIndex = block.tx.indexOf(txid);
+    if (txIndex === -1) {
+      throw new Error(`Transaction ${txid} is not in block ${blockHash}`);
+    }
+    const coinbaseHex = await this.rpc.getRawTransactionHex(block.tx[0], blockHash);
+    const levels = buildMerkleTree(block.tx.map(txidToInternal));
+    const hasWitnessCommitment = extractWitnessCommitment(coinbaseHex) !== null;
+    console.log(`✅ [KENNY] Legacy proof for ${txid}: no witness data${hasWitnessCommitment ? '' : ', block has no witness commitment'}`);
+
+    return {
+      segwit: false,
+      hasWitnessCommitment,
+      txid,
+      height,
+      header,
+      txIndex,
+      treeDepth: levels.length - 1,
+      merkleProof: merklePath(levels, txIndex).map(hash => hash.toString('hex')),
+      txHex: serializeTransaction(tx).toString('hex'),
+      txStrippedHex: strippedHex(tx)
+    };
+  }
+}
+
+// Computes the proof itself from the node's block data (see native-proof.ts)
+export class NativeProofProvider implements ProofProvider {
+  readonly name = 'native';
+
+  constructor(
+    private readonly rpc: BitcoinRpcClient,
+    private readonly blocks: BlockCache
+  ) {}
+
+  getProof({ txid, blockHash }: ProofRequest): Promise<any> {
+    return getNativeProof(this.rpc, this.blocks, txid, blockHash);
+  }
+}
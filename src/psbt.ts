@@ -0,0 +1,84 @@
+import { ByteReader, ParsedTransaction, parseTransaction } from './tx.js';
+
+// Minimal BIP174 (version 0) reader: the unsigned transaction plus what each input
+// says about the output it spends, which is enough to size the signed transaction
+
+const PSBT_MAGIC = Buffer.from('70736274ff', 'hex');
+
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00;
+const PSBT_GLOBAL_VERSION = 0xfb;
+const PSBT_IN_NON_WITNESS_UTXO = 0x00;
+const PSBT_IN_WITNESS_UTXO = 0x01;
+const PSBT_IN_FINAL_SCRIPTSIG = 0x07;
+const PSBT_IN_FINAL_SCRIPTWITNESS = 0x08;
+
+export interface PsbtInput {
+  // The spent output, from witness_utxo or the full previous transaction
+  prevout?: { value: bigint; scriptPubKey: Buffer };
+  finalScriptSig?: Buffer;
+  finalScriptWitness?: Buffer[];
+}
+
+export interface ParsedPsbt {
+  tx: ParsedTransaction;
+  inputs: PsbtInput[];
+}
+
+export function isPsbt(data: Buffer): boolean {
+  return data.subarray(0, PSBT_MAGIC.length).equals(PSBT_MAGIC);
+}
+
+// Key-value pairs of one map, up to its 0x00 separator
+function readMap(reader: ByteReader): Array<{ type: number; key: Buffer; value: Buffer }> {
+  const entries: Array<{ type: number; key: Buffer; value: Buffer }> = [];
+  for (;;) {
+    const keyLength = reader.compactSize();
+    if (keyLength === 0) {
+      return entries;
+    }
+    const key = reader.bytes(keyLength);
+    entries.push({ type: key[0], key, value: reader.varBytes() });
+  }
+}
+
+export function parsePsbt(data: Buffer): ParsedPsbt {
+  if (!isPsbt(data)) {
+    throw new Error('Not a PSBT: missing the psbt magic bytes');
+  }
+  const reader = new ByteReader(data.subarray(PSBT_MAGIC.length));
+
+  const global = readMap(reader);
+  const version = global.find(entry => entry.type === PSBT_GLOBAL_VERSION);
+  if (version && version.value.readUInt32LE(0) !== 0) {
+    throw new Error(`PSBT version ${version.value.readUInt32LE(0)} is not supported, only version 0`);
+  }
+  const unsigned = global.find(entry => entry.type === PSBT_GLOBAL_UNSIGNED_TX);
+  if (!unsigned) {
+    throw new Error('PSBT has no unsigned transaction');
+  }
+  const tx = parseTransaction(unsigned.value.toString('hex'));
+
+  const inputs = tx.inputs.map((txInput): PsbtInput => {
+    const input: PsbtInput = {};
+    for (const entry of readMap(reader)) {
+      if (entry.type === PSBT_IN_WITNESS_UTXO) {
+        const utxo = new ByteReader(entry.value);
+        input.prevout = { value: utxo.uint64(), scriptPubKey: utxo.varBytes() };
+      } else if (entry.type === PSBT_IN_NON_WITNESS_UTXO && !input.prevout) {
+        const previous = parseTransaction(entry.value.toString('hex'));
+        input.prevout = previous.outputs[txInput.index];
+      } else if (entry.type === PSBT_IN_FINAL_SCRIPTSIG) {
+        input.finalScriptSig = entry.value;
+      } else if (entry.type === PSBT_IN_FINAL_SCRIPTWITNESS) {
+        const witness = new ByteReader(entry.value);
+        const count = witness.compactSize();
+        input.finalScriptWitness = Array.from({ length: count }, () => witness.varBytes());
+      }
+    }
+    return input;
+  });
+  // Output maps carry nothing the checks need
+  tx.outputs.forEach(() => readMap(reader));
+
+  return { tx, inputs };
+}
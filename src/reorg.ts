@@ -0,0 +1,150 @@
+import { BitcoinRpcClient } from './rpc.js';
+import { ProofCache, TrackedProof } from './proof-cache.js';
+import { StateMap, StateStore } from './store.js';
+
+export interface ReorgEvent {
+  type: 'reorged';
+  txid: string;
+  oldBlockHash: string;
+  oldHeight: number;
+  // Block now at oldHeight on the main chain, if the chain is still that long
+  mainChainBlockHash?: string;
+  detectedAt: number;
+  recomputed?: { blockHash: string; height: number; at: number };
+  recomputeError?: string;
+}
+
+export interface ReorgWatcherOptions {
+  intervalMs: number;
+  // Rebuild evicted proofs right away instead of on the next request
+  recompute: boolean;
+}
+
+export function getReorgWatcherOptions(): ReorgWatcherOptions {
+  return {
+    intervalMs: Number(process.env.REORG_CHECK_INTERVAL_MS || 60000),
+    recompute: process.env.REORG_RECOMPUTE !== 'false'
+  };
+}
+
+// Rebuilds the proof for a txid after a reorg and returns what was cached, if anything
+export type ProofRecompute = (txid: string) => Promise<{ blockHash: string; height: number } | undefined>;
+
+// Polls the chain tip and, whenever it changes, checks every cached proof's block
+// against getblockhash(height). Proofs whose block left the main chain are evicted,
+// optionally recomputed, and recorded as `reorged` events for the status endpoints.
+export class ReorgWatcher {
+  private timer?: NodeJS.Timeout;
+  private lastTip?: string;
+  private running = false;
+
+  constructor(
+    private readonly rpc: BitcoinRpcClient,
+    private readonly store: StateStore,
+    private readonly cache: ProofCache,
+    readonly events: StateMap<ReorgEvent>,
+    private readonly options: ReorgWatcherOptions,
+    private readonly recompute?: ProofRecompute
+  ) {}
+
+  start() {
+    if (this.timer || this.options.intervalMs <= 0) {
+      return;
+    }
+    console.log(`👀 [REORG] Watching the chain tip every ${this.options.intervalMs}ms`);
+    this.timer = setInterval(() => {
+      this.check().catch(error => console.error('❌ [REORG] Tip check failed:', error));
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async check(): Promise<ReorgEvent[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+    try {
+      const tip = await this.rpc.getBestBlockHash();
+      if (tip === this.lastTip) {
+        return [];
+      }
+
+      // With a shared store, one worker per interval does the scan
+      const lockMs = Math.max(this.options.intervalMs - 1000, 1000);
+      if (!(await this.store.setIfAbsent('locks', `reorg-check:${tip}`, process.pid, { ttlMs: lockMs }))) {
+        this.lastTip = tip;
+        return [];
+      }
+
+      const events = await this.scan();
+      this.lastTip = tip;
+      return events;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async scan(): Promise<ReorgEvent[]> {
+    const tracked = await this.cache.tracked();
+    if (tracked.length === 0) {
+      return [];
+    }
+
+    // One getblockhash per distinct height, in a single batch
+    const heights = [...new Set(tracked.map(entry => entry.height))];
+    const replies = await this.rpc.batchSettled(heights.map(height => ({ method: 'getblockhash', params: [height] })));
+    const mainChain = new Map<number, string | undefined>();
+    heights.forEach((height, index) => {
+      const reply = replies[index];
+      // -8 means the height is above the new tip; other errors skip the height this round
+      if (reply.ok) {
+        mainChain.set(height, reply.result as string);
+      } else if (reply.error.code === -8) {
+        mainChain.set(height, undefined);
+      }
+    });
+
+    const reorged = tracked.filter(entry => mainChain.has(entry.height) && mainChain.get(entry.height) !== entry.blockHash);
+    const events: ReorgEvent[] = [];
+    for (const entry of reorged) {
+      events.push(await this.handleReorg(entry, mainChain.get(entry.height)));
+    }
+    return events;
+  }
+
+  private async handleReorg(entry: TrackedProof, mainChainBlockHash?: string): Promise<ReorgEvent> {
+    console.log(`🔀 [REORG] Block ${entry.blockHash} at height ${entry.height} left the main chain, evicting proof for ${entry.txid}`);
+    await this.cache.delete(entry.txid);
+
+    const event: ReorgEvent = {
+      type: 'reorged',
+      txid: entry.txid,
+      oldBlockHash: entry.blockHash,
+      oldHeight: entry.height,
+      mainChainBlockHash,
+      detectedAt: Date.now()
+    };
+
+    if (this.options.recompute && this.recompute) {
+      try {
+        const cached = await this.recompute(entry.txid);
+        if (cached) {
+          event.recomputed = { ...cached, at: Date.now() };
+          console.log(`✅ [REORG] Recomputed proof for ${entry.txid} in block ${cached.blockHash}`);
+        }
+      } catch (error) {
+        // Typically the tx went back to the mempool
+        event.recomputeError = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ [REORG] Could not recompute proof for ${entry.txid}: ${event.recomputeError}`);
+      }
+    }
+
+    await this.events.set(entry.txid, event);
+    return event;
+  }
+}
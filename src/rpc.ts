@@ -0,0 +1,462 @@
+import fs from 'fs';
+import fetch from 'node-fetch';
+
+// Bitcoin Core JSON-RPC error codes we care about (see src/rpc/protocol.h upstream)
+export const RPC_ERROR_CODES = {
+  MISC_ERROR: -1,
+  TYPE_ERROR: -3,
+  INVALID_ADDRESS_OR_KEY: -5,
+  INVALID_PARAMETER: -8,
+  CLIENT_NOT_CONNECTED: -9,
+  CLIENT_IN_INITIAL_DOWNLOAD: -10,
+  WALLET_NOT_FOUND: -18,
+  DESERIALIZATION_ERROR: -22,
+  VERIFY_ERROR: -25,
+  VERIFY_REJECTED: -26,
+  VERIFY_ALREADY_IN_CHAIN: -27,
+  IN_WARMUP: -28,
+  WALLET_ALREADY_LOADED: -35,
+  METHOD_NOT_FOUND: -32601,
+} as const;
+
+// The node answered, but with a JSON-RPC error. Never retried.
+export class RpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly method: string
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+// The node could not be reached or answered with something that isn't JSON-RPC.
+export class RpcTransportError extends Error {
+  constructor(
+    message: string,
+    public readonly method: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'RpcTransportError';
+  }
+}
+
+// Maps RPC failures to the HTTP status our routes should answer with
+export function httpStatusForError(error: unknown): number {
+  if (error instanceof RpcError) {
+    switch (error.code) {
+      case RPC_ERROR_CODES.INVALID_ADDRESS_OR_KEY:
+        return 404;
+      case RPC_ERROR_CODES.INVALID_PARAMETER:
+      case RPC_ERROR_CODES.TYPE_ERROR:
+      case RPC_ERROR_CODES.DESERIALIZATION_ERROR:
+        return 400;
+      case RPC_ERROR_CODES.IN_WARMUP:
+      case RPC_ERROR_CODES.CLIENT_NOT_CONNECTED:
+      case RPC_ERROR_CODES.CLIENT_IN_INITIAL_DOWNLOAD:
+        return 503;
+      default:
+        return 500;
+    }
+  }
+  if (error instanceof RpcTransportError) {
+    return 503;
+  }
+  return 500;
+}
+
+export interface RpcConfig {
+  url: string;
+  user: string;
+  pass: string;
+  cookieFile?: string;
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+}
+
+export interface RpcCallOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface RpcRequest {
+  method: string;
+  params?: unknown[];
+}
+
+export type RpcSettledResult<T = unknown> =
+  | { ok: true; result: T }
+  | { ok: false; error: RpcError };
+
+interface RpcResponse<T> {
+  result: T | null;
+  error: {
+    code: number;
+    message: string;
+  } | null;
+  id: string | number;
+}
+
+// Parameters in the shape clarity-bitcoin-client expects
+export interface ClarityClientRpcParams {
+  rpcHost: string;
+  rpcPort: number;
+  rpcUser: string;
+  rpcPass: string;
+}
+
+// Parameters in the shape bitcoin-tx-proof expects
+export interface TxProofRpcConfig {
+  url: string;
+  username: string;
+  password: string;
+}
+
+// Result types for the RPC methods we use
+export interface RawTxInput {
+  txid?: string;
+  vout?: number;
+  coinbase?: string;
+  scriptSig?: {
+    asm: string;
+    hex: string;
+  };
+  txinwitness?: string[];
+  sequence: number;
+  // The spent output, at getrawtransaction / getblock verbosity 2+ (Bitcoin Core 25+)
+  prevout?: {
+    generated: boolean;
+    height: number;
+    value: number;
+    scriptPubKey: ScriptPubKey;
+  };
+}
+
+export interface ScriptPubKey {
+  asm: string;
+  hex: string;
+  type: string;
+  desc?: string;
+  address?: string;
+  addresses?: string[];
+}
+
+export interface RawTxOutput {
+  value: number;
+  n: number;
+  scriptPubKey: ScriptPubKey;
+}
+
+export interface RawTransaction {
+  txid: string;
+  hash: string;
+  version: number;
+  size: number;
+  vsize: number;
+  weight: number;
+  locktime: number;
+  hex: string;
+  vin: RawTxInput[];
+  vout: RawTxOutput[];
+  blockhash?: string;
+  confirmations?: number;
+  time?: number;
+  blocktime?: number;
+  // BTC, when the prevouts are known (see RawTxInput.prevout)
+  fee?: number;
+}
+
+export interface BlockHeaderInfo {
+  hash: string;
+  confirmations: number;
+  height: number;
+  version: number;
+  versionHex: string;
+  merkleroot: string;
+  time: number;
+  mediantime: number;
+  nonce: number;
+  bits: string;
+  difficulty: number;
+  chainwork: string;
+  nTx: number;
+  previousblockhash?: string;
+  nextblockhash?: string;
+}
+
+export interface BlockInfo extends BlockHeaderInfo {
+  size: number;
+  strippedsize: number;
+  weight: number;
+  tx: string[];
+}
+
+export interface BlockWithTransactions extends BlockHeaderInfo {
+  size: number;
+  strippedsize: number;
+  weight: number;
+  tx: RawTransaction[];
+}
+
+export interface FeeEstimateResult {
+  feerate?: number;
+  errors?: string[];
+  blocks: number;
+}
+
+export interface BlockchainInfo {
+  chain: string;
+  blocks: number;
+  headers: number;
+  bestblockhash: string;
+  initialblockdownload: boolean;
+  verificationprogress: number;
+}
+
+// Reads RPC_* settings, or <prefix>RPC_* for one of several networks (see network.ts)
+export function getRpcConfig(prefix = '', defaultPort = 8332): RpcConfig {
+  const env = (name: string) => process.env[`${prefix}${name}`];
+  const protocol = env('RPC_PROTOCOL') || 'http';
+  const host = env('RPC_HOST') || 'localhost';
+  const port = env('RPC_PORT') || String(defaultPort);
+
+  return {
+    url: `${protocol}://${host}:${port}`,
+    user: env('RPC_USER') || '',
+    pass: env('RPC_PASS') || '',
+    cookieFile: env('RPC_COOKIE_FILE') || undefined,
+    timeoutMs: parseInt(env('RPC_TIMEOUT_MS') || '30000'),
+    retries: parseInt(env('RPC_RETRIES') || '2'),
+    retryDelayMs: parseInt(env('RPC_RETRY_DELAY_MS') || '250')
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class BitcoinRpcClient {
+  private cookie?: { user: string; pass: string };
+  private nextId = 0;
+
+  constructor(readonly config: RpcConfig) {}
+
+  // Credentials from the cookie file when configured (re-read after a 401), else user/pass
+  private credentials(): { user: string; pass: string } {
+    if (!this.config.cookieFile) {
+      return { user: this.config.user, pass: this.config.pass };
+    }
+    if (!this.cookie) {
+      const contents = fs.readFileSync(this.config.cookieFile, 'utf8').trim();
+      const separator = contents.indexOf(':');
+      this.cookie = {
+        user: contents.slice(0, separator),
+        pass: contents.slice(separator + 1)
+      };
+    }
+    return this.cookie;
+  }
+
+  // Client for a loaded wallet's RPC endpoint, sharing this node's credentials and limits
+  wallet(name: string): BitcoinRpcClient {
+    return new BitcoinRpcClient({ ...this.config, url: `${this.config.url}/wallet/${encodeURIComponent(name)}` });
+  }
+
+  clarityParams(): ClarityClientRpcParams {
+    const url = new URL(this.config.url);
+    const { user, pass } = this.credentials();
+    return {
+      rpcHost: `${url.protocol}//${url.hostname}`,
+      rpcPort: parseInt(url.port || (url.protocol === 'https:' ? '443' : '80')),
+      rpcUser: user,
+      rpcPass: pass
+    };
+  }
+
+  txProofConfig(): TxProofRpcConfig {
+    const { user, pass } = this.credentials();
+    return {
+      url: this.config.url,
+      username: user,
+      password: pass
+    };
+  }
+
+  // Sends one HTTP request, retrying transport failures with exponential backoff
+  private async post(body: unknown, label: string, options: RpcCallOptions): Promise<unknown> {
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    const retries = options.retries ?? this.config.retries;
+    let reauthenticated = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const { user, pass } = this.credentials();
+        const response = await fetch(this.config.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': 'Basic ' + Buffer.from(`${user}:${pass}`).toString('base64')
+          },
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+
+        if (response.status === 401 || response.status === 403) {
+          // The node rewrites its cookie on restart, so try the fresh one once
+          if (this.config.cookieFile && !reauthenticated) {
+            this.cookie = undefined;
+            reauthenticated = true;
+            attempt--;
+            continue;
+          }
+          throw new RpcTransportError(`RPC authentication failed (HTTP ${response.status})`, label, response.status);
+        }
+
+        const text = await response.text();
+        try {
+          return JSON.parse(text);
+        } catch {
+          throw new RpcTransportError(
+            `Invalid RPC response (HTTP ${response.status}): ${text.substring(0, 200)}`,
+            label,
+            response.status
+          );
+        }
+      } catch (error) {
+        const transportError = error instanceof RpcTransportError
+          ? error
+          : new RpcTransportError(
+              controller.signal.aborted
+                ? `RPC ${label} timed out after ${timeoutMs}ms`
+                : `RPC ${label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              label
+            );
+
+        const retryable = transportError.status !== 401 && transportError.status !== 403;
+        if (!retryable || attempt >= retries) {
+          throw transportError;
+        }
+
+        const delay = this.config.retryDelayMs * 2 ** attempt;
+        console.warn(`⚠️ [RPC] ${transportError.message} - retrying in ${delay}ms (${attempt + 1}/${retries})`);
+        await sleep(delay);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  async call<T>(method: string, params: unknown[] = [], options: RpcCallOptions = {}): Promise<T> {
+    const id = `${method}-${this.nextId++}`;
+    const response = await this.post({ jsonrpc: '1.0', id, method, params }, method, options) as RpcResponse<T>;
+
+    if (response.error) {
+      throw new RpcError(response.error.code, response.error.message, method);
+    }
+    return response.result as T;
+  }
+
+  // Sends several calls in one JSON-RPC array, returning per-call results in request order
+  async batchSettled(requests: RpcRequest[], options: RpcCallOptions = {}): Promise<RpcSettledResult[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const base = this.nextId;
+    this.nextId += requests.length;
+    const body = requests.map((request, index) => ({
+      jsonrpc: '1.0',
+      id: base + index,
+      method: request.method,
+      params: request.params ?? []
+    }));
+
+    const label = `batch(${requests.map(request => request.method).join(',')})`;
+    const response = await this.post(body, label, options);
+
+    if (!Array.isArray(response)) {
+      // Nodes that reject the whole batch answer with a single error object
+      const single = response as RpcResponse<unknown>;
+      throw single.error
+        ? new RpcError(single.error.code, single.error.message, label)
+        : new RpcTransportError('RPC batch response is not an array', label);
+    }
+
+    const byId = new Map<number, RpcResponse<unknown>>();
+    for (const item of response as RpcResponse<unknown>[]) {
+      byId.set(Number(item.id), item);
+    }
+
+    return requests.map((request, index) => {
+      const item = byId.get(base + index);
+      if (!item) {
+        return { ok: false, error: new RpcError(RPC_ERROR_CODES.MISC_ERROR, 'Missing response in batch', request.method) };
+      }
+      if (item.error) {
+        return { ok: false, error: new RpcError(item.error.code, item.error.message, request.method) };
+      }
+      return { ok: true, result: item.result };
+    });
+  }
+
+  // Like batchSettled but throws the first RPC error
+  async batch<T extends unknown[] = unknown[]>(requests: RpcRequest[], options: RpcCallOptions = {}): Promise<T> {
+    const settled = await this.batchSettled(requests, options);
+    return settled.map(item => {
+      if (!item.ok) {
+        throw item.error;
+      }
+      return item.result;
+    }) as T;
+  }
+
+  getRawTransaction(txid: string, blockhash?: string): Promise<RawTransaction> {
+    return this.call<RawTransaction>('getrawtransaction', blockhash ? [txid, true, blockhash] : [txid, true]);
+  }
+
+  getRawTransactionHex(txid: string, blockhash?: string): Promise<string> {
+    return this.call<string>('getrawtransaction', blockhash ? [txid, false, blockhash] : [txid, false]);
+  }
+
+  getBlock(blockhash: string): Promise<BlockInfo> {
+    return this.call<BlockInfo>('getblock', [blockhash, 1]);
+  }
+
+  getBlockWithTransactions(blockhash: string): Promise<BlockWithTransactions> {
+    return this.call<BlockWithTransactions>('getblock', [blockhash, 2]);
+  }
+
+  getBlockHeader(blockhash: string): Promise<BlockHeaderInfo> {
+    return this.call<BlockHeaderInfo>('getblockheader', [blockhash, true]);
+  }
+
+  getBlockHeaderHex(blockhash: string): Promise<string> {
+    return this.call<string>('getblockheader', [blockhash, false]);
+  }
+
+  getBlockHash(height: number): Promise<string> {
+    return this.call<string>('getblockhash', [height]);
+  }
+
+  getBlockCount(): Promise<number> {
+    return this.call<number>('getblockcount');
+  }
+
+  getBestBlockHash(): Promise<string> {
+    return this.call<string>('getbestblockhash');
+  }
+
+  getBlockchainInfo(): Promise<BlockchainInfo> {
+    return this.call<BlockchainInfo>('getblockchaininfo');
+  }
+
+  estimateSmartFee(confTarget: number, mode?: 'ECONOMICAL' | 'CONSERVATIVE'): Promise<FeeEstimateResult> {
+    return this.call<FeeEstimateResult>('estimatesmartfee', mode ? [confTarget, mode] : [confTarget]);
+  }
+}
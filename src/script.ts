@@ -0,0 +1,111 @@
+// Script disassembly in the notation Esplora and mempool.space show (rust-bitcoin's asm)
+
+// Names of opcodes 0x61 (OP_NOP) to 0xba (OP_CHECKSIGADD)
+const OPCODE_NAMES = (
+  'NOP VER IF NOTIF VERIF VERNOTIF ELSE ENDIF VERIFY RETURN TOALTSTACK FROMALTSTACK 2DROP 2DUP 3DUP 2OVER '
+  + '2ROT 2SWAP IFDUP DEPTH DROP DUP NIP OVER PICK ROLL ROT SWAP TUCK CAT SUBSTR LEFT RIGHT SIZE INVERT AND OR '
+  + 'XOR EQUAL EQUALVERIFY RESERVED1 RESERVED2 1ADD 1SUB 2MUL 2DIV NEGATE ABS NOT 0NOTEQUAL ADD SUB MUL DIV MOD '
+  + 'LSHIFT RSHIFT BOOLAND BOOLOR NUMEQUAL NUMEQUALVERIFY NUMNOTEQUAL LESSTHAN GREATERTHAN LESSTHANOREQUAL '
+  + 'GREATERTHANOREQUAL MIN MAX WITHIN RIPEMD160 SHA1 SHA256 HASH160 HASH256 CODESEPARATOR CHECKSIG '
+  + 'CHECKSIGVERIFY CHECKMULTISIG CHECKMULTISIGVERIFY NOP1 CLTV CSV NOP4 NOP5 NOP6 NOP7 NOP8 NOP9 NOP10 CHECKSIGADD'
+).split(' ');
+
+export interface ScriptInstruction {
+  opcode: number;
+  // Pushed data, for OP_0 and the push opcodes
+  data?: Buffer;
+  // Set when the script ends inside a push
+  error?: 'unexpected end' | 'push past end';
+}
+
+export function* scriptInstructions(script: Buffer): Generator<ScriptInstruction> {
+  let offset = 0;
+  while (offset < script.length) {
+    const opcode = script[offset++];
+    if (opcode > 0x4e) {
+      yield { opcode };
+      continue;
+    }
+    // OP_0 and OP_PUSHBYTES_1..75 carry their length; OP_PUSHDATA1/2/4 a 1, 2 or 4 byte one
+    const lengthBytes = opcode === 0x4c ? 1 : opcode === 0x4d ? 2 : opcode === 0x4e ? 4 : 0;
+    if (offset + lengthBytes > script.length) {
+      yield { opcode, error: 'unexpected end' };
+      return;
+    }
+    const length = lengthBytes === 0 ? opcode : script.readUIntLE(offset, lengthBytes);
+    offset += lengthBytes;
+    if (offset + length > script.length) {
+      yield { opcode, error: 'push past end' };
+      return;
+    }
+    yield { opcode, data: script.subarray(offset, offset + length) };
+    offset += length;
+  }
+}
+
+function opcodeName(opcode: number): string {
+  if (opcode === 0x00) {
+    return 'OP_0';
+  }
+  if (opcode <= 0x4b) {
+    return `OP_PUSHBYTES_${opcode}`;
+  }
+  if (opcode <= 0x4e) {
+    return `OP_PUSHDATA${opcode === 0x4c ? 1 : opcode === 0x4d ? 2 : 4}`;
+  }
+  if (opcode === 0x4f) {
+    return 'OP_PUSHNUM_NEG1';
+  }
+  if (opcode === 0x50) {
+    return 'OP_RESERVED';
+  }
+  if (opcode <= 0x60) {
+    return `OP_PUSHNUM_${opcode - 0x50}`;
+  }
+  if (opcode <= 0xba) {
+    return `OP_${OPCODE_NAMES[opcode - 0x61]}`;
+  }
+  return opcode === 0xff ? 'OP_INVALIDOPCODE' : `OP_RETURN_${opcode}`;
+}
+
+// e.g. "OP_0 OP_PUSHBYTES_20 751e76e8..." for P2WPKH
+export function scriptAsm(script: Buffer): string {
+  const parts: string[] = [];
+  for (const instruction of scriptInstructions(script)) {
+    parts.push(opcodeName(instruction.opcode));
+    if (instruction.error) {
+      parts.push(`<${instruction.error}>`);
+    } else if (instruction.data && instruction.data.length > 0) {
+      parts.push(instruction.data.toString('hex'));
+    }
+  }
+  return parts.join(' ');
+}
+
+// The data of a script's last instruction, if it is a push and the script parses;
+// a P2SH scriptSig ends with the redeem script
+export function lastPush(script: Buffer): Buffer | undefined {
+  let last: ScriptInstruction | undefined;
+  for (const instruction of scriptInstructions(script)) {
+    last = instruction;
+  }
+  return last?.data;
+}
+
+// The script a P2SH, P2WSH or taproot script path input reveals, as Esplora reports them:
+// redeem script for P2SH, witness script for P2WSH (wrapped or not) and the tapscript for P2TR
+export function innerScripts(scriptSig: Buffer, witness: Buffer[], prevoutScript: Buffer): { redeemScript?: Buffer; witnessScript?: Buffer } {
+  const prevoutHex = prevoutScript.toString('hex');
+  const redeemScript = /^a914[0-9a-f]{40}87$/.test(prevoutHex) ? lastPush(scriptSig) : undefined;
+
+  let witnessScript: Buffer | undefined;
+  if (/^0020[0-9a-f]{64}$/.test(prevoutHex) || (redeemScript && /^0020[0-9a-f]{64}$/.test(redeemScript.toString('hex')))) {
+    witnessScript = witness[witness.length - 1];
+  } else if (/^5120[0-9a-f]{64}$/.test(prevoutHex)) {
+    // Script path: [...stack, script, control block] and maybe an annex (0x50...) after them
+    const annex = witness.length > 1 && witness[witness.length - 1][0] === 0x50;
+    const items = witness.length - (annex ? 1 : 0);
+    witnessScript = items > 1 ? witness[items - 2] : undefined;
+  }
+  return { redeemScript, witnessScript };
+}
@@ -1,91 +1,325 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { getProofData, getProofGenerationData, extractProofInfo } from 'clarity-bitcoin-client';
-import fetch from 'node-fetch';
+import { BitcoinRpcClient, RPC_ERROR_CODES, RawTransaction, RpcError, httpStatusForError } from './rpc.js';
+import { VerifyMode, parseVerifyMode, verifyProofAgainstNode } from './verify.js';
+import { getNativeProof } from './native-proof.js';
+import { CLARITY_ARGS_FUNCTIONS, buildClarityArgs, parseClarityArgsFunction } from './clarity-args.js';
+import { StateMap, createStateStore, getStateStoreConfig } from './store.js';
+import { ProofCache } from './proof-cache.js';
+import {
+  DepthShortfall,
+  InsufficientDepthError,
+  MIN_PROOF_CONFIRMATIONS,
+  depthShortfall,
+  getBlockDepth,
+  parseMinConfirmations,
+  unconfirmedShortfall
+} from './confirmations.js';
+import { ReorgEvent, ReorgWatcher, getReorgWatcherOptions } from './reorg.js';
+import { SubscriptionService, callbackUrlProblem, getWebhookOptions, publicSubscription } from './webhooks.js';
+import { JobEvent, JobEventLog, KennyPhaseListener, isTerminalPhase } from './job-events.js';
+import { BlockCache, InFlight, getBlockCacheOptions } from './block-cache.js';
+import {
+  AccessControl,
+  KeyRegistry,
+  KeyRegistryError,
+  QUOTA_GROUPS,
+  RateLimiter,
+  SCOPES,
+  getAuthConfig,
+  parseQuotas,
+  parseScopes,
+  publicKey,
+  requestKey
+} from './auth.js';
+import {
+  Chain,
+  ChainInfo,
+  NETWORK_PARAMS,
+  NetworkConfig,
+  NetworkParams,
+  detectChain,
+  getNetworkConfigs,
+  validateAddress
+} from './network.js';
+import { UtxoService, getUtxoOptions } from './utxo.js';
+import { FeeEstimator, getFeeOptions } from './fees.js';
+import { DepositRules, StyxConfig, depositRules, getStyxConfig, parseDeposit, proofReadiness, rawTransactionOutputs } from './styx.js';
+import { DepositInputError, validateUnsignedDeposit } from './styx-validate.js';
+import { DepositStatus, DepositWatcher, getDepositWatcherOptions } from './deposits.js';
+import { computeWtxid, strippedHex, transactionFromRpc } from './tx.js';
+import { internalToTxid, merkleRoot } from './merkle.js';
+import { BLOCK_TXS_PAGE, blockTransactions, electrumMerkleProof, esploraBlock, getEsploraTransaction } from './esplora.js';
+import { BroadcastError, broadcastTransaction, getBroadcastOptions, isRawTransactionHex } from './broadcast.js';
+import { BATCH_SYNC_MAX_TXIDS, BatchSummary, getBatchProofs, parseBatchItems } from './batch.js';
+import {
+  BitcoinTxProofProvider,
+  ClarityBitcoinClientProvider,
+  NativeProofProvider,
+  ProofProviderChain,
+  ProofProvidersExhaustedError,
+  ProviderChainResult,
+  getProviderOrder
+} from './providers.js';
 
 // Load environment variables
 dotenv.config();
 
-// Add API key authentication
-const API_KEY = process.env.API_KEY || 'your-secure-api-key-here';
-
 const app = express();
 
 // Enable CORS and JSON parsing
 app.use(cors());
 app.use(express.json());
 
-const kennyProofCache = new Map<string, any>();
+// Cache, jobs and rate limits live in the configured state store (STATE_STORE) so they
+// survive restarts and, with Redis, are shared between PM2 workers
+const stateStore = createStateStore(getStateStoreConfig());
 
-// Track ongoing Kenny requests to prevent duplicates
-const ongoingKennyRequests = new Map<string, Promise<any>>();
+const HOUR = 60 * 60 * 1000;
+const PROOF_CACHE_TTL = Number(process.env.PROOF_CACHE_TTL_MS || 7 * 24 * HOUR);
+const JOB_TTL = Number(process.env.JOB_TTL_MS || 24 * HOUR);
+const SSE_HEARTBEAT_MS = Number(process.env.SSE_HEARTBEAT_MS || 15000);
+const broadcastOptions = getBroadcastOptions();
+const webhookOptions = getWebhookOptions();
 
-// Rate limiting for Kenny endpoint (optional but recommended)
-const kennyRequestTracker = new Map<string, { count: number; resetTime: number }>();
+// API keys (API_KEY, API_KEYS_FILE and admin-created keys) with scopes and per-route quotas
+const authConfig = getAuthConfig();
+const access = new AccessControl(new KeyRegistry(stateStore, authConfig), new RateLimiter(stateStore, authConfig));
 
-// Track ongoing jobs for async processing
-const kennyJobs = new Map<string, {
+interface JobState {
   status: 'processing' | 'completed' | 'failed';
+  txid?: string;
   result?: any;
   error?: string;
+  // Confirmation shortfall when the job failed for lack of depth
+  depth?: DepthShortfall['body'];
   startTime: number;
-}>();
+}
+
+type BatchJobState = JobState & {
+  progress: { done: number; total: number };
+  result?: BatchSummary;
+};
+
+// Everything tied to one node: its RPC client, caches, jobs and background watchers
+interface Network {
+  // Name reported by /health, and the path prefix (/<name>/api/...) when NETWORKS is set
+  name: string;
+  prefix?: string;
+  // Why the network is refused, e.g. the node is on another chain than configured
+  unavailable?: string;
+  // Known from NETWORKS / BITCOIN_NETWORK, otherwise once the node has been asked
+  params?: NetworkParams;
+  info?: ChainInfo;
+  expectedChain?: Chain;
+  
+  // Shared Bitcoin RPC client used by every route
+  rpc: BitcoinRpcClient;
+  // Prepared blocks (txids, wtxids, coinbase, merkle trees) shared by native proofs, batches and verification
+  blockCache: BlockCache;
+  // Proof providers, tried in PROOF_PROVIDERS order; a proof must pass verification to be accepted
+  proofProviders: ProofProviderChain;
+  // Concurrent /api/proof requests for the same tx, block and provider share one provider run
+  ongoingProofRequests: InFlight<ProviderChainResult>;
+  
+  // Keyed by (txid, blockhash): a reorg can move the tx into a different block
+  kennyProofCache: ProofCache;
+  reorgEvents: StateMap<ReorgEvent>;
+  // Track ongoing Kenny requests to prevent duplicates: promises for this process,
+  // plus a shared marker so other workers report the txid as processing
+  ongoingKennyRequests: Map<string, Promise<any>>;
+  kennyInFlight: StateMap<{ startTime: number }>;
+  // Track ongoing jobs for async processing
+  kennyJobs: StateMap<JobState>;
+  // Phase-by-phase progress of Kenny runs for the SSE stream, and the latest run per txid
+  kennyEvents: JobEventLog;
+  kennyLatestRun: StateMap<string>;
+  // Async batch proof jobs
+  batchJobs: StateMap<BatchJobState>;
+  
+  subscriptions: SubscriptionService;
+  reorgWatcher: ReorgWatcher;
+  // Address UTXOs from a watch-only descriptor wallet on the node
+  utxos: UtxoService;
+  // Fee recommendations from estimatesmartfee and the node's mempool
+  fees: FeeEstimator;
+  // Pool addresses and minimum amount for Styx deposits
+  styx: StyxConfig;
+  // The Styx config resolved against the detected network
+  styxRules?: DepositRules;
+  // Index of pool deposits found by scanning blocks
+  deposits: DepositWatcher;
+}
+
+// State-store namespaces get the network's name as prefix, except for the first
+// network, which keeps the unprefixed namespaces of a single-network setup
+function createNetwork(config: NetworkConfig, namespacePrefix: string): Network {
+  const ns = (name: string) => `${namespacePrefix}${name}`;
+  // Settings that differ per network are read from <NAME>_* when NETWORKS is set
+  const envPrefix = config.name ? `${config.name.toUpperCase()}_` : '';
+  const rpc = new BitcoinRpcClient(config.rpc);
+  const blockCache = new BlockCache(rpc, getBlockCacheOptions());
+  const proofProviders = new ProofProviderChain(
+    [new ClarityBitcoinClientProvider(rpc), new BitcoinTxProofProvider(rpc), new NativeProofProvider(rpc, blockCache)],
+    getProviderOrder(),
+    ({ txid, blockHash }, proof) => verifyProofAgainstNode(rpc, txid, blockHash, proof, blockCache)
+  );
+  const kennyProofCache = new ProofCache(stateStore, ns('kenny-proofs'), { ttlMs: PROOF_CACHE_TTL, maxEntries: 10000 });
+  const reorgEvents = new StateMap<ReorgEvent>(stateStore, ns('reorg-events'), { ttlMs: JOB_TTL, maxEntries: 10000 });
+  
+  const net: Network = {
+    name: config.name ?? (config.expectedChain ? NETWORK_PARAMS[config.expectedChain].name : 'default'),
+    prefix: config.name,
+    params: config.expectedChain ? NETWORK_PARAMS[config.expectedChain] : undefined,
+    expectedChain: config.expectedChain,
+    rpc,
+    blockCache,
+    proofProviders,
+    ongoingProofRequests: new InFlight<ProviderChainResult>(),
+    kennyProofCache,
+    reorgEvents,
+    ongoingKennyRequests: new Map<string, Promise<any>>(),
+    kennyInFlight: new StateMap<{ startTime: number }>(stateStore, ns('kenny-inflight'), { ttlMs: 15 * 60 * 1000 }),
+    kennyJobs: new StateMap<JobState>(stateStore, ns('kenny-jobs'), { ttlMs: JOB_TTL, maxEntries: 10000 }),
+    kennyEvents: new JobEventLog(stateStore, ns('kenny-events'), { ttlMs: JOB_TTL, maxEntries: 10000 }),
+    kennyLatestRun: new StateMap<string>(stateStore, ns('kenny-latest-run'), { ttlMs: JOB_TTL, maxEntries: 10000 }),
+    batchJobs: new StateMap<BatchJobState>(stateStore, ns('batch-jobs'), { ttlMs: JOB_TTL, maxEntries: 1000 }),
+    
+    // Webhook subscriptions; proof.ready carries a proof from the provider chain
+    subscriptions: new SubscriptionService(rpc, stateStore, webhookOptions, async (txid, blockHash) => {
+      const result = await proofProviders.getProof({ txid, blockHash });
+      return { ...result.proof, verified: true, verification: result.verification, provider: result.provider };
+    }, ns('subscriptions')),
+    
+    fees: new FeeEstimator(rpc, getFeeOptions()),
+    utxos: new UtxoService(rpc, stateStore, getUtxoOptions(envPrefix), ns('utxo-watched')),
+    styx: getStyxConfig(envPrefix),
+    deposits: new DepositWatcher(rpc, stateStore, getDepositWatcherOptions(envPrefix), () => net.styxRules, ns('styx-deposits')),
+    
+    // Evicts cached Kenny proofs whose block left the main chain and rebuilds them
+    reorgWatcher: new ReorgWatcher(rpc, stateStore, kennyProofCache, reorgEvents, getReorgWatcherOptions(), async txid => {
+      const result = await processKennyRequest(net, txid);
+      if (!result.verified) {
+        throw new Error(`Recomputed proof failed verification: ${result.verification?.reason}`);
+      }
+      await kennyProofCache.set(txid, result);
+      return { blockHash: result.blockHash, height: result.height };
+    })
+  };
+  return net;
+}
+
+const networks = getNetworkConfigs().map((config, index) => createNetwork(config, index === 0 ? '' : `${config.name}:`));
+const defaultNetwork = networks[0];
+
+// Asks the node which chain it is on; a node on another chain than configured is not served
+async function detectNetwork(net: Network) {
+  const info = await detectChain(net.rpc);
+  if (net.expectedChain && info.chain !== net.expectedChain) {
+    net.unavailable = `Network ${net.name} expects chain "${net.expectedChain}" but the node at ${net.rpc.config.url} is on "${info.chain}"`;
+    throw new Error(net.unavailable);
+  }
+  net.unavailable = undefined;
+  net.info = info;
+  net.params = NETWORK_PARAMS[info.chain];
+  if (!net.expectedChain) {
+    net.name = net.params.name;
+  }
+  net.styxRules = depositRules(net.styx, net.params);
+  console.log(`🌐 [NETWORK] ${net.name}: node at ${net.rpc.config.url} is on ${info.chain} at height ${info.blocks}`);
+}
+
+// The network a request is for, set by the path-prefix middleware
+function network(res: express.Response): Network {
+  return res.locals.network as Network;
+}
 
 // Health check endpoint (no API key required)
 app.get('/health', (req, res) => {
   res.json({ 
     status: 'ok', 
-    network: 'testnet',
-    rpcHost: process.env.RPC_HOST,
+    // The first network is also served without a prefix
+    networks: networks.map((net, index) => ({
+      name: net.name,
+      chain: net.info?.chain ?? null,
+      detected: net.info !== undefined,
+      blocks: net.info?.blocks ?? null,
+      initialBlockDownload: net.info?.initialBlockDownload ?? null,
+      prefixes: [...(index === 0 ? [''] : []), ...(net.prefix ? [`/${net.prefix}`] : [])],
+      error: net.unavailable ?? null,
+      rpcUrl: net.rpc.config.url
+    })),
+    stateStore: stateStore.kind,
     timestamp: new Date().toISOString() 
   });
 });
 
-// API key authentication middleware
-app.use((req, res, next) => {
-  const providedKey = req.headers['x-api-key'];
-  
-  if (!providedKey || providedKey !== API_KEY) {
-    return res.status(401).json({ error: 'Unauthorized: Invalid API key' });
-  }
-  
-  next();
-});
+// API key authentication middleware; each route then checks its scope and quota
+app.use(access.authenticate);
 
-// RPC connection parameters
-interface RpcParams {
-  rpcHost: string;
-  rpcPort: number;
-  rpcUser: string;
-  rpcPass: string;
-}
+// Routes served per network, mounted under /<name> and unprefixed for the first network
+const api = express.Router();
 
-function getRpcParams(): RpcParams {
+// Error response body for failed RPC-backed requests
+function rpcErrorBody(error: unknown, context: Record<string, unknown>) {
   return {
-    rpcHost: `http://${process.env.RPC_HOST || 'localhost'}`,  // Add http:// prefix
-    rpcPort: parseInt(process.env.RPC_PORT || '8332'),
-    rpcUser: process.env.RPC_USER || '',
-    rpcPass: process.env.RPC_PASS || ''
+    error: error instanceof Error ? error.message : 'Unknown error',
+    ...(error instanceof RpcError ? { rpcCode: error.code } : {}),
+    ...context
   };
 }
 
-// Add these type definitions at the top of your server.ts file
+// A verified proof was returned: an indexed Styx deposit for the txid is now proven
+function recordProven(net: Network, txid: string) {
+  net.deposits.markProven(txid).catch(error => console.error(`❌ [STYX-SCAN] Could not mark ${txid} as proven:`, error));
+}
 
-// Type definitions for Bitcoin RPC responses
-interface RpcResponse<T> {
-  result?: T;
-  error?: {
-    code: number;
-    message: string;
-  };
-  id: string;
+// Sends a proof, or a 422 when strict verification was requested and the proof failed it
+function sendProof(res: express.Response, txid: string, proof: any, verifyMode: VerifyMode) {
+  if (verifyMode === 'strict' && !proof.verified) {
+    return res.status(422).json({
+      error: `Proof failed verification: ${proof.verification?.reason}`,
+      txid: txid,
+      verification: proof.verification
+    });
+  }
+  if (proof.verified) {
+    recordProven(network(res), txid);
+  }
+  return res.json(proof);
 }
 
-// Fee estimation response types
-interface FeeEstimateResult {
-  feerate: number;
-  blocks: number;
+// 409 for unconfirmed / orphaned, 425 for a tx that needs more confirmations before a proof
+function sendDepthShortfall(res: express.Response, shortfall: DepthShortfall) {
+  console.log(`⏳ [DEPTH] ${shortfall.body.txid}: ${shortfall.body.error}`);
+  return res.status(shortfall.status).json(shortfall.body);
+}
+
+function invalidMinConfirmations(res: express.Response, txid: string) {
+  return res.status(400).json({
+    error: 'minConfirmations must be a positive integer',
+    txid: txid
+  });
+}
+
+// Every provider failed: flag mode still returns the first unverified proof, if there was one
+function sendProvidersExhausted(res: express.Response, txid: string, error: ProofProvidersExhaustedError, verifyMode: VerifyMode) {
+  const { unverified, attempts, lastError } = error;
+  if (unverified) {
+    return sendProof(res, txid, {
+      ...unverified.proof,
+      verified: false,
+      verification: unverified.verification,
+      provider: unverified.provider,
+      attempts
+    }, verifyMode);
+  }
+  return res.status(httpStatusForError(lastError)).json(rpcErrorBody(error, {
+    ...(lastError instanceof RpcError ? { rpcCode: lastError.code } : {}),
+    txid,
+    attempts
+  }));
 }
 
 // Transaction response types
@@ -118,21 +352,6 @@ interface TransactionResult {
   blocktime?: number;
 }
 
-// UTXO scan result types
-interface Unspent {
-  txid: string;
-  vout: number;
-  scriptPubKey: string;
-  amount: number;
-  height: number;
-}
-
-interface UtxoScanResult {
-  success: boolean;
-  unspents: Unspent[];
-  total_amount: number;
-}
-
 // Define interfaces for Bitcoin RPC responses
 interface BitcoinInput {
   txid: string;
@@ -170,37 +389,6 @@ interface BitcoinTransaction {
   height?: number;
 }
 
-interface TxInfo {
-  result?: {
-    blockhash?: string;
-    vin: Array<{
-      txinwitness?: string[];
-      [key: string]: any;
-    }>;
-    [key: string]: any;
-  };
-  error?: any;
-}
-
-interface BlockInfo {
-  result?: {
-    height?: number;
-    [key: string]: any;
-  };
-  error?: any;
-}
-
-interface TxDetail {
-  result?: {
-    vin: Array<{
-      txinwitness?: string[];
-      [key: string]: any;
-    }>;
-    [key: string]: any;
-  };
-  error?: any;
-}
-
 // Health check endpoint
 // app.get('/health', (req, res) => {
 //   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -209,752 +397,1087 @@ interface TxDetail {
 // Main proof endpoint
 // Replace your existing /api/proof/:txid endpoint with this enhanced version
 
-app.get('/api/proof/:txid', async (req, res) => {
+// Depth check, then the provider chain; shared by the txid and by-position proof routes
+async function sendVerifiedProof(req: express.Request, res: express.Response, txid: string, blockHash: string, minConfirmations: number) {
+  const { rpc, proofProviders, ongoingProofRequests } = network(res);
+  
+  const shortfall = depthShortfall(txid, await getBlockDepth(rpc, blockHash), minConfirmations);
+  if (shortfall) {
+    return sendDepthShortfall(res, shortfall);
+  }
+  
+  const provider = req.query.provider as string | undefined;
+  if (provider && !proofProviders.has(provider)) {
+    return res.status(400).json({
+      error: `Unknown provider "${provider}", expected one of: ${proofProviders.names().join(', ')}`,
+      txid: txid
+    });
+  }
+  
+  const verifyMode = parseVerifyMode(req.query.verify);
+  let result;
+  try {
+    // Without ?provider= this falls through the configured chain until a proof verifies
+    result = await ongoingProofRequests.run(`${txid}:${blockHash}:${provider ?? ''}`, () =>
+      proofProviders.getProof({ txid, blockHash }, provider)
+    );
+  } catch (error) {
+    if (error instanceof ProofProvidersExhaustedError) {
+      return sendProvidersExhausted(res, txid, error, verifyMode);
+    }
+    throw error;
+  }
+  
+  console.log(`🎉 [PROOF] Proof from ${result.provider} verified, returning proof`);
+  sendProof(res, txid, {
+    ...result.proof,
+    verified: true,
+    verification: result.verification,
+    provider: result.provider,
+    attempts: result.attempts
+  }, verifyMode);
+}
+
+api.get('/api/proof/:txid', access.require('proof', 'proof'), async (req, res) => {
+  const { rpc } = network(res);
   try {
     const { txid } = req.params;
     let blockHash = req.query.blockHash as string || '';
     console.log(`🔍 [PROOF] Processing request for txid: ${txid}`);
     console.log(`🔍 [PROOF] Initial blockHash: "${blockHash}"`);
     
+    const minConfirmations = parseMinConfirmations(req.query.minConfirmations);
+    if (minConfirmations === undefined) {
+      return invalidMinConfirmations(res, txid);
+    }
+    
     // If no blockHash provided, try to get it from the transaction
     if (!blockHash) {
       try {
         console.log("🔄 [PROOF] No blockhash provided, attempting to retrieve transaction info...");
-        const rpcParams = getRpcParams();
-        console.log("🔧 [PROOF] RPC Params:", JSON.stringify({
-          ...rpcParams,
-          rpcPass: rpcParams.rpcPass ? '[REDACTED]' : 'NOT_SET'
-        }));
+        const txInfo = await rpc.getRawTransaction(txid);
         
-        // Make RPC call to get transaction info
-        const requestBody = JSON.stringify({
-          jsonrpc: '1.0',
-          id: 'bitcoin-rpc',
-          method: 'getrawtransaction',
-          params: [txid, true]
-        });
-        console.log("📡 [PROOF] RPC Request:", requestBody);
+        console.log("📋 [PROOF] Transaction version from RPC:", txInfo.version);
+        console.log("📋 [PROOF] Transaction locktime from RPC:", txInfo.locktime);
         
-        const response = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-          },
-          body: requestBody
-        });
-        
-        // Log the raw response
-        const rawResponse = await response.text();
-        console.log("📥 [PROOF] Raw RPC Response length:", rawResponse.length);
-        console.log("📥 [PROOF] Raw RPC Response preview:", rawResponse.substring(0, 200));
-        
-        // Parse the response
-        const txInfo = JSON.parse(rawResponse) as {
-          result?: {
-            blockhash?: string;
-            version?: number;
-            locktime?: number;
-          };
-          error?: any;
-        };
-        
-        console.log("📋 [PROOF] Parsed txInfo keys:", Object.keys(txInfo.result || {}));
-        console.log("📋 [PROOF] Transaction version from RPC:", txInfo.result?.version);
-        console.log("📋 [PROOF] Transaction locktime from RPC:", txInfo.result?.locktime);
-        
-        if (txInfo.result && txInfo.result.blockhash) {
-          blockHash = txInfo.result.blockhash;
+        if (txInfo.blockhash) {
+          blockHash = txInfo.blockhash;
           console.log(`✅ [PROOF] Found blockhash: ${blockHash} for txid: ${txid}`);
-        } else if (txInfo.error) {
-          console.error("❌ [PROOF] RPC Error:", JSON.stringify(txInfo.error));
-          return res.status(500).json({
-            error: `RPC Error: ${txInfo.error.message}`,
-            txid: txid
-          });
         } else {
           console.error("❌ [PROOF] No blockhash found in transaction info");
-          return res.status(500).json({
-            error: "Transaction not confirmed or not found",
-            txid: txid
-          });
+          return sendDepthShortfall(res, unconfirmedShortfall(txid, minConfirmations, await rpc.getBlockCount()));
         }
       } catch (error) {
         console.error('❌ [PROOF] Error getting transaction info:', error);
-        return res.status(500).json({
-          error: `Failed to get transaction info: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          txid: txid
-        });
+        return res.status(httpStatusForError(error)).json(rpcErrorBody(error, { txid }));
       }
     }
     
-    console.log(`🎯 [PROOF] Using blockhash: "${blockHash}" for getProofData call`);
+    console.log(`🎯 [PROOF] Using blockhash: "${blockHash}"`);
+    await sendVerifiedProof(req, res, txid, blockHash, minConfirmations);
     
-    // DEBUG: Let's see what data clarity-bitcoin-client receives
-    console.log(`🔍 [DEBUG] About to debug what clarity-bitcoin-client receives...`);
+  } catch (error) {
+    console.error('❌ [PROOF] Unexpected error in proof endpoint:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Unknown error',
+      txid: req.params.txid,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// The tx at a position in a block, e.g. for fixtures that start from "the Nth tx in block H".
+// :block is a height or a block hash; the proof is the one /api/proof/:txid returns.
+api.get('/api/proof/by-position/:block/:index', access.require('proof', 'proof'), async (req, res) => {
+  const { rpc } = network(res);
+  const { block } = req.params;
+  const index = Number(req.params.index);
+  if (!Number.isInteger(index) || index < 0) {
+    return res.status(400).json({ error: 'index must be a non-negative integer', block, index: req.params.index });
+  }
+  const byHash = HASH_PATTERN.test(block);
+  if (!byHash && !/^\d+$/.test(block)) {
+    return res.status(400).json({ error: 'block must be a height or a 64 hex character block hash', block });
+  }
+  
+  const minConfirmations = parseMinConfirmations(req.query.minConfirmations);
+  if (minConfirmations === undefined) {
+    return res.status(400).json({ error: 'minConfirmations must be a positive integer', block });
+  }
+  
+  let blockHash: string;
+  let txids: string[];
+  try {
+    blockHash = byHash ? block.toLowerCase() : await rpc.getBlockHash(Number(block));
+    txids = (await rpc.getBlock(blockHash)).tx;
+  } catch (error) {
+    // -8: height above the tip; -5: unknown block hash
+    const status = error instanceof RpcError && error.code === RPC_ERROR_CODES.INVALID_PARAMETER ? 404 : httpStatusForError(error);
+    return res.status(status).json(rpcErrorBody(error, { block }));
+  }
+  if (index >= txids.length) {
+    return res.status(404).json({ error: `Block has ${txids.length} transactions, no index ${index}`, block, block_hash: blockHash, index });
+  }
+  
+  const txid = txids[index];
+  console.log(`🔍 [PROOF] Transaction ${index} of block ${blockHash} is ${txid}`);
+  try {
+    await sendVerifiedProof(req, res, txid, blockHash, minConfirmations);
+  } catch (error) {
+    console.error('❌ [PROOF] Unexpected error in proof-by-position endpoint:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      txid,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Batch proofs: each block is fetched once for all of its txids
+api.post('/api/proofs', access.require('proof', 'batch'), async (req, res) => {
+  const { rpc, blockCache, batchJobs } = network(res);
+  let items;
+  try {
+    items = parseBatchItems(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request body' });
+  }
+  
+  const minConfirmations = parseMinConfirmations(req.query.minConfirmations);
+  if (minConfirmations === undefined) {
+    return res.status(400).json({ error: 'minConfirmations must be a positive integer' });
+  }
+  
+  const runAsync = req.query.async === 'true' || req.body?.async === true;
+  
+  if (!runAsync) {
+    if (items.length > BATCH_SYNC_MAX_TXIDS) {
+      return res.status(413).json({
+        error: `Batches over ${BATCH_SYNC_MAX_TXIDS} txids must use ?async=true`,
+        count: items.length
+      });
+    }
     
     try {
-      // Get the raw transaction
-      const rawTxRequest = JSON.stringify({
-        jsonrpc: '1.0',
-        id: 'debug-tx',
-        method: 'getrawtransaction',
-        params: [txid, true]
-      });
-      
-      const rawTxResponse = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-        },
-        body: rawTxRequest
+      console.log(`🔍 [BATCH] Processing ${items.length} txid(s)`);
+      const summary = await getBatchProofs(rpc, blockCache, items, { minConfirmations });
+      summary.results.forEach(result => result.ok && recordProven(network(res), result.txid));
+      return res.json(summary);
+    } catch (error) {
+      console.error('❌ [BATCH] Batch failed:', error);
+      return res.status(httpStatusForError(error)).json(rpcErrorBody(error, { count: items.length }));
+    }
+  }
+  
+  const jobId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const startTime = Date.now();
+  try {
+    await batchJobs.set(jobId, {
+      status: 'processing',
+      progress: { done: 0, total: items.length },
+      startTime
+    });
+  } catch (error) {
+    return res.status(503).json({ error: `State store unavailable: ${error instanceof Error ? error.message : 'Unknown error'}` });
+  }
+  
+  console.log(`🔄 [BATCH-START] Starting batch job ${jobId} for ${items.length} txid(s)`);
+  
+  // Start processing in background (don't await)
+  getBatchProofs(rpc, blockCache, items, {
+    minConfirmations,
+    onProgress: (done, total) => {
+      batchJobs.set(jobId, { status: 'processing', progress: { done, total }, startTime })
+        .catch(error => console.error(`❌ [BATCH-JOB] Failed to record progress for ${jobId}:`, error));
+    }
+  })
+    .then(result => {
+      result.results.forEach(item => item.ok && recordProven(network(res), item.txid));
+      return batchJobs.set(jobId, {
+        status: 'completed',
+        progress: { done: result.count, total: result.count },
+        result,
+        startTime
+      }).then(() => {
+        console.log(`✅ [BATCH-JOB] Job ${jobId} completed: ${result.succeeded}/${result.count} succeeded`);
       });
-      
-      const rawTxData = await rawTxResponse.json();
-      
-      // Get the block data
-      const blockRequest = JSON.stringify({
-        jsonrpc: '1.0',
-        id: 'debug-block',
-        method: 'getblock',
-        params: [blockHash, true]
+    })
+    .catch(error => {
+      console.error(`❌ [BATCH-JOB] Job ${jobId} failed:`, error);
+      return batchJobs.set(jobId, {
+        status: 'failed',
+        progress: { done: 0, total: items.length },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        startTime
       });
-      
-      const blockResponse = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-        },
-        body: blockRequest
+    })
+    .catch(error => console.error(`❌ [BATCH-JOB] Failed to record result for ${jobId}:`, error));
+  
+  res.status(202).json({
+    jobId,
+    status: 'processing',
+    count: items.length,
+    statusUrl: `/api/proofs/jobs/${jobId}`
+  });
+});
+
+api.get('/api/proofs/jobs/:jobId', access.require('proof', 'status'), async (req, res) => {
+  const { batchJobs } = network(res);
+  try {
+    const { jobId } = req.params;
+    
+    const job = await batchJobs.get(jobId);
+    if (!job) {
+      return res.status(404).json({
+        error: 'Job not found',
+        jobId
       });
-      
-      const blockData = await blockResponse.json();
-      
-      // Check if any of these numbers match our mystery "109112198"
-      const mysteryNumber = 109112198;
-      
-      // Convert mystery number to hex to see if it makes sense
-      console.log(`🔍 [DEBUG] Mystery number in hex: 0x${mysteryNumber.toString(16)}`);
-      
-    } catch (debugError) {
-      console.error(`❌ [DEBUG] Error during debug:`, debugError);
     }
     
-    console.log(`🔍 [DEBUG] Debug complete, now calling getProofData...`);
-    console.log(`🔄 [PROOF] About to call getProofData from clarity-bitcoin-client...`);
-    
-    // Get proof data with enhanced error handling
-    let data;
-    try {
-      const rpcParams = getRpcParams();
-      console.log(`🔧 [PROOF] Final RPC params for getProofData:`, {
-        rpcHost: rpcParams.rpcHost,
-        rpcPort: rpcParams.rpcPort,
-        rpcUser: rpcParams.rpcUser ? 'SET' : 'NOT_SET',
-        rpcPass: rpcParams.rpcPass ? 'SET' : 'NOT_SET'
-      });
-      
-      data = await getProofData(txid, blockHash, rpcParams);
-      console.log("✅ [PROOF] getProofData completed successfully");
-      console.log("📋 [PROOF] Data structure:", {
-        hasData: !!data,
-        dataKeys: data ? Object.keys(data) : [],
-        dataType: typeof data
-      });
-          // ADD THESE LINES:
-    console.log("🔍 [BLOCK-DATA] Block data keys:", Object.keys(data.block || {}));
-    console.log("🔍 [BLOCK-DATA] Block data sample:", JSON.stringify(data.block || {}, null, 2).slice(0, 500));
+    const runtime = Math.round((Date.now() - job.startTime) / 1000);
     
-        // Check if the block has coinbase transaction
-        if (data.block && data.block.tx && data.block.tx[0]) {
-          console.log("🔍 [BLOCK-DATA] Coinbase tx from block:", JSON.stringify(data.block.tx[0], null, 2).slice(0, 300));
-        }
+    res.json({
+      jobId,
+      status: job.status,
+      progress: job.progress,
+      runtime: `${runtime} seconds`,
+      result: job.result,
+      error: job.error
+    });
     
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
 
-    } catch (proofError: unknown) {
-      // console.error("❌ [PROOF] getProofData failed:");
-      // console.error("❌ [PROOF] Error type:", proofError.constructor.name);
-      // console.error("❌ [PROOF] Error message:", (proofError as Error).message);
-      // console.error("❌ [PROOF] Error stack:", proofError.stack?.split('\n').slice(0, 5));
-      
-      // Check if it's the specific version error
-      if ((proofError as Error).message?.includes('Unknown version')) {
-        console.error("🚨 [PROOF] This is the 'Unknown version' error we've been tracking!");
-        console.error("🚨 [PROOF] Full error details:", JSON.stringify({
-          message: (proofError as Error).message,
-          name: (proofError as Error).name,
-          txid: txid,
-          blockHash: blockHash
-        }, null, 2));
-      }
-      
-      return res.status(500).json({
-        error: `Failed to retrieve proof generation data for txid: ${txid} - wrapped error: ${(proofError as Error).message}`,
-        txid: txid,
-        details: {
-          errorType: (proofError as Error).constructor.name,
-          blockHash: blockHash,
-          timestamp: new Date().toISOString()
-        }
-      });
+// Register a txid for webhook notifications
+api.post('/api/subscriptions', access.require('proof', 'proof'), async (req, res) => {
+  const { subscriptions } = network(res);
+  try {
+    const { txid, callbackUrl } = req.body || {};
+    
+    if (typeof txid !== 'string' || !/^[0-9a-fA-F]{64}$/.test(txid)) {
+      return res.status(400).json({ error: 'txid must be a 64-character hex string' });
     }
     
-    console.log("🔄 [PROOF] About to call getProofGenerationData...");
-    let pgd;
+    let url: URL;
     try {
-      pgd = getProofGenerationData(data);
-      console.log("✅ [PROOF] getProofGenerationData completed");
-    } catch (pgdError: unknown) {
-      console.error("❌ [PROOF] getProofGenerationData failed:", pgdError);
-      return res.status(500).json({
-        error: `Failed during proof generation: ${(pgdError as Error).message}`,
-        txid: txid
-      });
+      url = new URL(callbackUrl);
+    } catch {
+      return res.status(400).json({ error: 'callbackUrl must be an absolute URL', txid });
     }
+    const problem = await callbackUrlProblem(url, webhookOptions);
+    if (problem) {
+      return res.status(400).json({ error: problem, txid });
+    }
+    
+    const minConfirmations = parseMinConfirmations(req.body.minConfirmations);
+    if (minConfirmations === undefined) {
+      return invalidMinConfirmations(res, txid);
+    }
+    
+    const subscription = await subscriptions.create(requestKey(res).id, txid.toLowerCase(), url.toString(), minConfirmations);
     
-console.log("🔄 [PROOF] About to call extractProofInfo...");
-let proof;
-try {
-  proof = extractProofInfo(pgd, data);
-  console.log("✅ [PROOF] extractProofInfo completed");
-  console.log("📋 [PROOF] Final proof structure:", {
-    hasProof: !!proof,
-    proofKeys: proof ? Object.keys(proof) : [],
-    segwit: proof?.segwit,
-    height: proof?.height
+    // The secret is only ever returned here
+    res.status(201).json(subscription);
+    
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Subscriptions of the calling key
+api.get('/api/subscriptions', access.require('proof', 'status'), async (req, res) => {
+  const { subscriptions } = network(res);
+  try {
+    const all = await subscriptions.list(requestKey(res).id);
+    res.json({
+      count: all.length,
+      subscriptions: all.map(subscription => ({
+        ...publicSubscription(subscription),
+        deliveries: subscription.deliveries.length
+      }))
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Subscription with its delivery log
+api.get('/api/subscriptions/:id', access.require('proof', 'status'), async (req, res) => {
+  const { subscriptions } = network(res);
+  try {
+    const subscription = await subscriptions.subscriptions.get(req.params.id);
+    // Another key's subscription is reported as missing
+    if (!subscription || subscription.keyId !== requestKey(res).id) {
+      return res.status(404).json({ error: 'Subscription not found', id: req.params.id });
+    }
+    res.json(publicSubscription(subscription));
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+api.delete('/api/subscriptions/:id', access.require('proof', 'status'), async (req, res) => {
+  const { subscriptions } = network(res);
+  try {
+    const { id } = req.params;
+    const subscription = await subscriptions.subscriptions.get(id);
+    if (!subscription || subscription.keyId !== requestKey(res).id) {
+      return res.status(404).json({ error: 'Subscription not found', id });
+    }
+    await subscriptions.remove(id);
+    console.log(`🗑️ [WEBHOOK] Deleted subscription ${id}`);
+    res.json({ message: `Subscription ${id} deleted`, id });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Proof provider order and per-provider success/failure counters
+api.get('/api/proof-providers', access.require('proof', 'status'), (req, res) => {
+  const { proofProviders } = network(res);
+  res.json({
+    order: proofProviders.order,
+    available: proofProviders.names(),
+    stats: proofProviders.stats()
   });
-} catch (extractError: unknown) {
-  console.error("❌ [PROOF] extractProofInfo failed:", extractError);
-  console.error("❌ [PROOF] Error message:", (extractError as Error).message);
-  console.error("❌ [PROOF] Error stack:", (extractError as Error).stack);
-  return res.status(500).json({
-    error: `Failed during proof extraction: ${(extractError as Error).message}`,
-    txid: txid
+});
+
+// Block cache and request de-duplication counters
+api.get('/api/block-cache', access.require('admin', 'admin'), (req, res) => {
+  const { blockCache, ongoingProofRequests } = network(res);
+  res.json({
+    blockCache: blockCache.stats(),
+    proofRequests: { deduplicated: ongoingProofRequests.joined }
   });
-}    
-    console.log("🎉 [PROOF] All steps completed successfully, returning proof");
-    res.json(proof);
-    
+});
+
+// 404 for unknown keys, 409 for keys fixed by API_KEY / API_KEYS_FILE
+function sendKeyRegistryError(res: express.Response, error: unknown) {
+  if (error instanceof KeyRegistryError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(500).json({
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+// The calling key, its quotas and today's usage
+app.get('/api/keys/me', async (req, res) => {
+  try {
+    const key = requestKey(res);
+    res.json({
+      ...publicKey(key),
+      quotas: Object.fromEntries(QUOTA_GROUPS.map(group => [group, access.limiter.quotaFor(key, group)])),
+      usage: await access.limiter.usage(key.id, 1)
+    });
   } catch (error) {
-    console.error('❌ [PROOF] Unexpected error in proof endpoint:', error);
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error',
-      txid: req.params.txid,
-      timestamp: new Date().toISOString()
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// Transaction status endpoint
-app.get('/api/tx/:txid/status', async (req, res) => {
+// Key management (admin scope)
+app.get('/api/keys', access.require('admin', 'admin'), async (req, res) => {
   try {
-    const { txid } = req.params;
-    console.log(`Processing transaction status request for txid: ${txid}`);
+    const keys = await access.registry.list();
+    res.json({ count: keys.length, keys: keys.map(publicKey) });
+  } catch (error) {
+    sendKeyRegistryError(res, error);
+  }
+});
+
+app.post('/api/keys', access.require('admin', 'admin'), async (req, res) => {
+  try {
+    const { name } = req.body ?? {};
+    const scopes = parseScopes(req.body?.scopes);
+    const quotas = parseQuotas(req.body?.quotas);
     
-    // Make RPC call to get transaction info from Bitcoin node
-    const requestBody = JSON.stringify({
-      jsonrpc: '1.0',
-      id: 'bitcoin-rpc',
-      method: 'getrawtransaction',
-      params: [txid, true]
-    });
+    if (typeof name !== 'string' || name.trim() === '') {
+      return res.status(400).json({ error: 'name is required' });
+    }
+    if (!scopes) {
+      return res.status(400).json({ error: `scopes must be a non-empty array of: ${SCOPES.join(', ')}` });
+    }
+    if (!quotas) {
+      return res.status(400).json({ error: `quotas must map groups (${QUOTA_GROUPS.join(', ')}) to { limit, windowMs }` });
+    }
     
-    console.log("RPC Request for transaction:", requestBody);
+    const { key, record } = await access.registry.create(name.trim(), scopes, quotas);
     
-    const response = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-      },
-      body: requestBody
-    });
+    // The key is only returned here
+    res.status(201).json({ ...publicKey(record), key });
+  } catch (error) {
+    sendKeyRegistryError(res, error);
+  }
+});
+
+// Issues a new secret; the current one keeps working for overlapMs (API_KEY_ROTATION_OVERLAP_MS by default)
+app.post('/api/keys/:id/rotate', access.require('admin', 'admin'), async (req, res) => {
+  try {
+    const overlapMs = req.body?.overlapMs;
+    if (overlapMs !== undefined && (!Number.isInteger(overlapMs) || overlapMs < 0)) {
+      return res.status(400).json({ error: 'overlapMs must be a non-negative integer' });
+    }
     
-    // Parse the response
-    const rawResponse = await response.text();
-    const txInfo = JSON.parse(rawResponse);
+    const { key, record } = await access.registry.rotate(req.params.id, overlapMs);
+    res.json({ ...publicKey(record), key });
+  } catch (error) {
+    sendKeyRegistryError(res, error);
+  }
+});
+
+app.delete('/api/keys/:id', access.require('admin', 'admin'), async (req, res) => {
+  try {
+    const record = await access.registry.revoke(req.params.id);
+    res.json({ ...publicKey(record), message: `Key ${record.id} revoked` });
+  } catch (error) {
+    sendKeyRegistryError(res, error);
+  }
+});
+
+// Daily request and rejection counts per route group
+app.get('/api/keys/:id/usage', access.require('admin', 'admin'), async (req, res) => {
+  try {
+    const days = Math.min(Math.max(Number(req.query.days) || 7, 1), authConfig.usageRetentionDays);
+    const key = await access.registry.get(req.params.id);
+    if (!key) {
+      return res.status(404).json({ error: `Key "${req.params.id}" not found` });
+    }
+    res.json({ id: key.id, name: key.name, days: await access.limiter.usage(key.id, days) });
+  } catch (error) {
+    sendKeyRegistryError(res, error);
+  }
+});
+
+// Contract-call arguments for was-tx-mined-compact / was-segwit-tx-mined-compact
+api.get('/api/proof/:txid/clarity-args', access.require('proof', 'proof'), async (req, res) => {
+  const { rpc, blockCache } = network(res);
+  const { txid } = req.params;
+  
+  try {
+    const requestedFn = req.query.fn as string | undefined;
+    const fn = requestedFn ? parseClarityArgsFunction(requestedFn) : undefined;
+    const form = req.query.form === 'tuple' ? 'tuple' : 'buff';
     
-    if (txInfo.error) {
-      console.error("RPC Error:", JSON.stringify(txInfo.error));
-      return res.status(500).json({ 
-        error: txInfo.error.message || 'Error retrieving transaction',
-        txid: txid 
+    if (requestedFn && !fn) {
+      return res.status(400).json({
+        error: `Unknown fn "${requestedFn}", expected one of: ${CLARITY_ARGS_FUNCTIONS.join(', ')}`,
+        txid: txid
       });
     }
     
-    if (!txInfo.result) {
-      return res.status(404).json({ 
-        error: 'Transaction not found',
-        txid: txid 
+    const minConfirmations = parseMinConfirmations(req.query.minConfirmations);
+    if (minConfirmations === undefined) {
+      return invalidMinConfirmations(res, txid);
+    }
+    
+    console.log(`🔍 [CLARITY-ARGS] Building ${fn || 'default'} arguments for txid: ${txid}`);
+    
+    let blockHash = req.query.blockHash as string || '';
+    if (!blockHash) {
+      const txInfo = await rpc.getRawTransaction(txid);
+      if (!txInfo.blockhash) {
+        return sendDepthShortfall(res, unconfirmedShortfall(txid, minConfirmations, await rpc.getBlockCount()));
+      }
+      blockHash = txInfo.blockhash;
+    }
+    
+    const shortfall = depthShortfall(txid, await getBlockDepth(rpc, blockHash), minConfirmations);
+    if (shortfall) {
+      return sendDepthShortfall(res, shortfall);
+    }
+    
+    const proof = await getNativeProof(rpc, blockCache, txid, blockHash);
+    
+    // Arguments from a proof that fails our checks would be rejected by the contract
+    const verification = await verifyProofAgainstNode(rpc, txid, blockHash, proof, blockCache);
+    if (!verification.verified) {
+      console.error(`🚨 [CLARITY-ARGS] Proof for ${txid} failed verification: ${verification.reason}`);
+      return res.status(422).json({
+        error: `Proof failed verification: ${verification.reason}`,
+        txid: txid,
+        verification
       });
     }
     
+    const selectedFn = fn || (proof.segwit ? 'was-segwit-tx-mined-compact' : 'was-tx-mined-compact');
+    
+    let result;
+    try {
+      result = buildClarityArgs(proof, selectedFn, form);
+    } catch (buildError) {
+      return res.status(422).json({
+        error: buildError instanceof Error ? buildError.message : 'Unknown error',
+        txid: txid,
+        fn: selectedFn
+      });
+    }
+    
+    console.log(`✅ [CLARITY-ARGS] Built ${result.args.length} arguments for ${selectedFn}`);
+    recordProven(network(res), txid);
+    
+    res.json({
+      txid,
+      blockHash,
+      height: proof.height,
+      segwit: proof.segwit,
+      ...result,
+      argsHex: result.args.map(arg => arg.hex),
+      verified: true,
+      verification
+    });
+  } catch (error) {
+    console.error('❌ [CLARITY-ARGS] Error building contract-call arguments:', error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { txid }));
+  }
+});
+
+// Transaction status endpoint
+api.get('/api/tx/:txid/status', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  try {
+    const { txid } = req.params;
+    console.log(`Processing transaction status request for txid: ${txid}`);
+    
+    const [txInfo, tipHeight] = await rpc.batch<[RawTransaction, number]>([
+      { method: 'getrawtransaction', params: [txid, true] },
+      { method: 'getblockcount', params: [] }
+    ]);
+    
     // Check if transaction is confirmed (has a blockhash)
-    const confirmed = !!txInfo.result.blockhash;
+    const confirmed = !!txInfo.blockhash;
     
     // If confirmed, get additional block info
     let blockHeight, blockTime;
     
-    if (confirmed) {
-      // Get block info
-      const blockRequestBody = JSON.stringify({
-        jsonrpc: '1.0',
-        id: 'bitcoin-rpc',
-        method: 'getblock',
-        params: [txInfo.result.blockhash]
-      });
-      
-      const blockResponse = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-        },
-        body: blockRequestBody
-      });
-      
-      const blockRawResponse = await blockResponse.text();
-      const blockInfo = JSON.parse(blockRawResponse);
-      
-      if (blockInfo.result) {
-        blockHeight = blockInfo.result.height;
-        blockTime = blockInfo.result.time;
-      }
+    if (txInfo.blockhash) {
+      const blockInfo = await rpc.getBlockHeader(txInfo.blockhash);
+      blockHeight = blockInfo.height;
+      blockTime = blockInfo.time;
     }
     
     // Return the transaction status in the same format as mempool.space API
     res.json({
       confirmed: confirmed,
       block_height: blockHeight,
-      block_hash: txInfo.result.blockhash,
-      block_time: blockTime
+      block_hash: txInfo.blockhash,
+      block_time: blockTime,
+      confirmations: txInfo.confirmations ?? 0,
+      tip_height: tipHeight
     });
     
   } catch (error) {
     console.error('Error processing transaction status request:', error);
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error',
-      txid: req.params.txid 
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { txid: req.params.txid }));
+  }
+});
+
+// Esplora (mempool.space) block endpoints, backed by the node
+const HASH_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+function invalidHash(res: express.Response, what: string, value: string) {
+  return res.status(400).json({ error: `Invalid ${what}: expected 64 hex characters`, [what]: value });
+}
+
+api.get('/api/blocks/tip/height', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  try {
+    res.type('text/plain').send(String(await rpc.getBlockCount()));
+  } catch (error) {
+    console.error('❌ [ESPLORA] Error fetching tip height:', error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, {}));
+  }
+});
+
+api.get('/api/blocks/tip/hash', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  try {
+    res.type('text/plain').send(await rpc.getBestBlockHash());
+  } catch (error) {
+    console.error('❌ [ESPLORA] Error fetching tip hash:', error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, {}));
+  }
+});
+
+api.get('/api/block-height/:height', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  const height = Number(req.params.height);
+  if (!Number.isInteger(height) || height < 0) {
+    return res.status(400).json({ error: 'height must be a non-negative integer', height: req.params.height });
+  }
+  try {
+    res.type('text/plain').send(await rpc.getBlockHash(height));
+  } catch (error) {
+    // -8: above the tip
+    const status = error instanceof RpcError && error.code === RPC_ERROR_CODES.INVALID_PARAMETER ? 404 : httpStatusForError(error);
+    res.status(status).json(rpcErrorBody(error, { height }));
+  }
+});
+
+api.get('/api/block/:hash', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  const { hash } = req.params;
+  if (!HASH_PATTERN.test(hash)) {
+    return invalidHash(res, 'hash', hash);
+  }
+  try {
+    res.json(esploraBlock(await rpc.getBlock(hash)));
+  } catch (error) {
+    console.error(`❌ [ESPLORA] Error fetching block ${hash}:`, error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { hash }));
+  }
+});
+
+api.get('/api/block/:hash/header', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  const { hash } = req.params;
+  if (!HASH_PATTERN.test(hash)) {
+    return invalidHash(res, 'hash', hash);
+  }
+  try {
+    res.type('text/plain').send(await rpc.getBlockHeaderHex(hash));
+  } catch (error) {
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { hash }));
+  }
+});
+
+// Every level of the block's merkle tree for inspection, leaves first and root last, in
+// txid (display) byte order; odd levels pair their last hash with itself
+api.get('/api/block/:hash/merkle-tree', access.require('tx:read', 'tx'), async (req, res) => {
+  const { blockCache } = network(res);
+  const { hash } = req.params;
+  if (!HASH_PATTERN.test(hash)) {
+    return invalidHash(res, 'hash', hash);
+  }
+  try {
+    const block = await blockCache.get(hash.toLowerCase());
+    const display = (levels: Buffer[][]) => levels.map(level => level.map(internalToTxid));
+    res.json({
+      hash: block.hash,
+      height: block.height,
+      tx_count: block.txids.length,
+      depth: block.txidLevels.length - 1,
+      merkle_root: internalToTxid(merkleRoot(block.txidLevels)),
+      levels: display(block.txidLevels),
+      // The witness commitment's tree, for blocks that have one
+      ...(block.wtxidLevels ? { witness_levels: display(block.wtxidLevels) } : {})
     });
+  } catch (error) {
+    console.error(`❌ [ESPLORA] Error building the merkle tree of block ${hash}:`, error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { hash }));
   }
 });
 
-// Bitcoin fee endpoint
-app.get('/api/bitcoin/fees', async (req, res) => {
+api.get('/api/block/:hash/txids', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  const { hash } = req.params;
+  if (!HASH_PATTERN.test(hash)) {
+    return invalidHash(res, 'hash', hash);
+  }
   try {
-    const providedKey = req.headers['x-api-key'];
-    
-    if (!providedKey || providedKey !== process.env.API_KEY) {
-      return res.status(401).json({ error: 'Unauthorized: Invalid API key' });
+    res.json((await rpc.getBlock(hash)).tx);
+  } catch (error) {
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { hash }));
+  }
+});
+
+// 25 transactions from :start (a multiple of 25), in Esplora's transaction format
+api.get('/api/block/:hash/txs/:start?', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc, params } = network(res);
+  const { hash } = req.params;
+  if (!HASH_PATTERN.test(hash)) {
+    return invalidHash(res, 'hash', hash);
+  }
+  const start = Number(req.params.start ?? 0);
+  if (!Number.isInteger(start) || start < 0 || start % BLOCK_TXS_PAGE !== 0) {
+    return res.status(400).json({ error: `start index must be a multiple of ${BLOCK_TXS_PAGE}`, hash, start: req.params.start });
+  }
+  try {
+    const block = await rpc.getBlock(hash);
+    if (start >= block.tx.length) {
+      return res.status(404).json({ error: 'start index out of range', hash, start });
     }
-    
-    console.log("Processing Bitcoin fee estimation request");
-    
-    // Make RPC call to get fee estimation from Bitcoin node - using 6 blocks as base
-    const lowFeeRequest = JSON.stringify({
-      jsonrpc: '1.0',
-      id: 'bitcoin-rpc',
-      method: 'estimatesmartfee',
-      params: [6]  // Target 6 blocks for base fee
-    });
-    
-    console.log("Requesting base fee estimate for 6 blocks");
-    const lowFeeResponse = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-      },
-      body: lowFeeRequest
+    res.json(await blockTransactions(rpc, block, start, params));
+  } catch (error) {
+    console.error(`❌ [ESPLORA] Error fetching transactions of block ${hash}:`, error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { hash }));
+  }
+});
+
+// Electrum-style merkle proof: { block_height, merkle, pos }
+api.get('/api/tx/:txid/merkle-proof', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  const { txid } = req.params;
+  if (!HASH_PATTERN.test(txid)) {
+    return invalidHash(res, 'txid', txid);
+  }
+  try {
+    const tx = await rpc.getRawTransaction(txid);
+    if (!tx.blockhash) {
+      return res.status(404).json({ error: 'Transaction is unconfirmed', txid });
+    }
+    res.json(electrumMerkleProof(await rpc.getBlock(tx.blockhash), txid));
+  } catch (error) {
+    console.error(`❌ [ESPLORA] Error building merkle proof for ${txid}:`, error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { txid }));
+  }
+});
+
+// BIP37 merkleblock (header plus partial merkle tree) in hex, from the node's gettxoutproof
+api.get('/api/tx/:txid/merkleblock-proof', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  const { txid } = req.params;
+  if (!HASH_PATTERN.test(txid)) {
+    return invalidHash(res, 'txid', txid);
+  }
+  try {
+    // The block hash lets the node find the tx without -txindex
+    const tx = await rpc.getRawTransaction(txid);
+    if (!tx.blockhash) {
+      return res.status(404).json({ error: 'Transaction is unconfirmed', txid });
+    }
+    res.type('text/plain').send(await rpc.call<string>('gettxoutproof', [[txid], tx.blockhash]));
+  } catch (error) {
+    console.error(`❌ [ESPLORA] Error building merkleblock proof for ${txid}:`, error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { txid }));
+  }
+});
+
+// Bitcoin fee endpoint
+api.get('/api/bitcoin/fees', access.require('fees', 'fees'), async (req, res) => {
+  const { fees } = network(res);
+  try {
+    const report = await fees.report();
+    console.log(`💸 [FEES] ${report.source}: fastest ${report.fastestFee}, half hour ${report.halfHourFee}, hour ${report.hourFee}, economy ${report.economyFee}, minimum ${report.minimumFee} sat/vB`);
+    res.json(report);
+  } catch (error) {
+    console.error('Error processing fee estimation request:', error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, {}));
+  }
+});
+
+// mempool.space-compatible recommended fees
+api.get('/api/v1/fees/recommended', access.require('fees', 'fees'), async (req, res) => {
+  const { fees } = network(res);
+  try {
+    const { fastestFee, halfHourFee, hourFee, economyFee, minimumFee } = await fees.report();
+    res.json({ fastestFee, halfHourFee, hourFee, economyFee, minimumFee });
+  } catch (error) {
+    console.error('Error processing fee estimation request:', error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, {}));
+  }
+});
+
+function sendBroadcastError(res: express.Response, error: unknown) {
+  if (error instanceof BroadcastError) {
+    console.log(`🚫 [BROADCAST] Rejected${error.txid ? ` ${error.txid}` : ''}: ${error.rejectReason ?? error.message}`);
+    return res.status(error.status).json({
+      error: error.message,
+      code: error.code,
+      rejectReason: error.rejectReason,
+      txid: error.txid
     });
-    
-    const lowFeeText = await lowFeeResponse.text();
-    console.log("Base fee (6 blocks) response:", lowFeeText);
-    const lowFeeData = JSON.parse(lowFeeText) as RpcResponse<FeeEstimateResult>;
-    
-    // Calculate fee rates
-    const CONVERSION_FACTOR = 100000;
-    
-    // Get node's 6-block fee rate
-    const baseFeeRate = lowFeeData.result?.feerate || 0.000002;
-    
-    console.log("Node's 6-block fee rate:", baseFeeRate);
-    
-    // Convert to sat/vB
-    const baseSatsPerVbyte = Math.round(baseFeeRate * CONVERSION_FACTOR);
-    console.log("Base fee rate in sat/vB:", baseSatsPerVbyte);
-    
-    // Derive other rates from the 6-block rate
-    let low = Math.max(1, baseSatsPerVbyte);
-    let medium = Math.max(low + 1, Math.round(low * 1.5));
-    let high = Math.max(medium + 1, Math.round(low * 2));
-    
-    console.log("Derived fee rates before capping:");
-    console.log("- Low:", low, "sat/vB");
-    console.log("- Medium:", medium, "sat/vB");
-    console.log("- High:", high, "sat/vB");
-    
-    // Cap at reasonable maximums
-    const MAX_LOW = 5;
-    const MAX_MEDIUM = 10;
-    const MAX_HIGH = 20;
-    
-    if (low > MAX_LOW || medium > MAX_MEDIUM || high > MAX_HIGH) {
-      console.log("Capping excessive fee rates");
-      low = Math.min(low, MAX_LOW);
-      medium = Math.min(medium, MAX_MEDIUM);
-      high = Math.min(high, MAX_HIGH);
-      
-      // Re-adjust in case capping broke ordering
-      medium = Math.max(low + 1, medium);
-      high = Math.max(medium + 1, high);
+  }
+  console.error('Error broadcasting transaction:', error);
+  res.status(httpStatusForError(error)).json(rpcErrorBody(error, {}));
+}
+
+// Broadcast a raw transaction (mempool.space-compatible: hex body in, txid as text out).
+// testmempoolaccept runs first, so a rejection comes back as a structured error code.
+// Like Esplora, any content type is read as the raw hex (curl -d sends form-urlencoded); JSON is already parsed above.
+api.post('/api/tx', access.require('tx:broadcast', 'broadcast'), express.text({ type: '*/*', limit: '1mb' }), async (req, res) => {
+  const { rpc } = network(res);
+  try {
+    const hex = (typeof req.body === 'string' ? req.body : req.body?.hex)?.trim();
+    if (!isRawTransactionHex(hex)) {
+      return res.status(400).json({
+        error: 'Body must be a raw transaction in hex, or JSON { "hex": "..." }',
+        code: 'invalid_transaction'
+      });
     }
     
-    console.log("Final fee rates after all adjustments:");
-    console.log("- Low:", low, "sat/vB");
-    console.log("- Medium:", medium, "sat/vB");
-    console.log("- High:", high, "sat/vB");
+    // ?maxfeerate (sat/vB) can lower BROADCAST_MAX_FEE_RATE_SAT_VB but not raise it
+    const requested = req.query.maxfeerate !== undefined ? Number(req.query.maxfeerate) : undefined;
+    if (requested !== undefined && !(requested > 0)) {
+      return res.status(400).json({ error: 'maxfeerate must be a positive number of sat/vB', code: 'invalid_request' });
+    }
+    const configured = broadcastOptions.maxFeeRate;
+    const maxFeeRate = requested !== undefined && configured !== undefined ? Math.min(requested, configured) : requested ?? configured;
     
-    res.json({
-      low,
-      medium,
-      high
-    });
+    const result = await broadcastTransaction(rpc, hex, maxFeeRate);
+    console.log(`📡 [BROADCAST] ${result.alreadyInMempool ? 'Already in mempool' : 'Sent'}: ${result.txid}${result.feeRate !== undefined ? ` at ${result.feeRate} sat/vB` : ''}`);
+    res.type('text/plain').send(result.txid);
   } catch (error) {
-    console.error('Error processing fee estimation request:', error);
-    
-    // Use reasonable fallback values
-    const fallbackResponse = { low: 1, medium: 2, high: 3 };
-    console.log("Using fallback fee rates due to error:", fallbackResponse);
-    
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error',
-      fallback: fallbackResponse
-    });
+    sendBroadcastError(res, error);
   }
 });
 
-// Add a new endpoint for fetching transaction hex
-app.get('/api/tx/:txid/hex', async (req, res) => {
+// Add a new endpoint for fetching transaction hex; ?format=stripped drops the witness
+// (the serialization the txid commits to and the legacy Clarity functions take)
+api.get('/api/tx/:txid/hex', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
   try {
     const { txid } = req.params;
-    const providedKey = req.headers['x-api-key'];
-    
-    if (!providedKey || providedKey !== process.env.API_KEY) {
-      return res.status(401).json({ error: 'Unauthorized: Invalid API key' });
+    const format = req.query.format ?? 'raw';
+    if (format !== 'raw' && format !== 'stripped') {
+      return res.status(400).json({ error: 'format must be raw or stripped', txid });
     }
-    
     console.log(`Processing transaction hex request for txid: ${txid}`);
     
-    // Make RPC call to get raw transaction
-    const requestBody = JSON.stringify({
-      jsonrpc: '1.0',
-      id: 'bitcoin-rpc',
-      method: 'getrawtransaction',
-      params: [txid]
-    });
-    
-    const response = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-      },
-      body: requestBody
-    });
-    
-    const text = await response.text();
-    const txData = JSON.parse(text) as RpcResponse<string>;
-    
-    if (txData.error) {
-      console.error("RPC Error:", JSON.stringify(txData.error));
-      return res.status(500).json({ 
-        error: txData.error.message || 'Error retrieving transaction',
-        txid: txid 
-      });
-    }
-    
-    if (!txData.result) {
-      return res.status(404).json({ 
-        error: 'Transaction not found',
-        txid: txid 
-      });
-    }
+    const txHex = format === 'stripped'
+      ? strippedHex(transactionFromRpc(await rpc.getRawTransaction(txid)))
+      : await rpc.getRawTransactionHex(txid);
     
     // Return the raw transaction hex
     res.set('Content-Type', 'text/plain');
-    res.send(txData.result);
+    res.send(txHex);
   } catch (error) {
     console.error('Error processing transaction hex request:', error);
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error',
-      txid: req.params.txid 
-    });
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { txid: req.params.txid }));
   }
 });
 
-// Endpoint for getting full transaction data - fix the format
-app.get('/api/tx/:txid', async (req, res) => {
+// The Styx rules of a network, or a 503 when deposits cannot be checked on it yet
+function styxRulesOr503(res: express.Response, context: Record<string, unknown>): DepositRules | undefined {
+  const { name, styx, styxRules } = network(res);
+  if (styx.poolAddresses.length === 0) {
+    res.status(503).json({ error: 'No Styx pool address configured (STYX_POOL_ADDRESSES)', ...context, network: name });
+    return undefined;
+  }
+  if (!styxRules) {
+    res.status(503).json({ error: 'Network not detected yet, the node has not answered getblockchaininfo', ...context, network: name });
+    return undefined;
+  }
+  if (styxRules.pool.size === 0) {
+    res.status(503).json({ error: `No Styx pool address is valid on ${name}`, ...context, network: name });
+    return undefined;
+  }
+  return styxRules;
+}
+
+// Styx deposit check: pool output, amount and OP_RETURN recipient, plus proof readiness
+api.get('/api/styx/deposit/:txid', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc } = network(res);
+  const { txid } = req.params;
   try {
-    const { txid } = req.params;
-    const providedKey = req.headers['x-api-key'];
-    
-    if (!providedKey || providedKey !== process.env.API_KEY) {
-      return res.status(401).json({ error: 'Unauthorized: Invalid API key' });
+    const minConfirmations = parseMinConfirmations(req.query.minConfirmations);
+    if (minConfirmations === undefined) {
+      return invalidMinConfirmations(res, txid);
+    }
+    const rules = styxRulesOr503(res, { txid });
+    if (!rules) {
+      return;
     }
     
-    console.log(`Processing transaction data request for txid: ${txid}`);
-    
-    // Make RPC call to get raw transaction
-    const requestBody = JSON.stringify({
-      jsonrpc: '1.0',
-      id: 'bitcoin-rpc',
-      method: 'getrawtransaction',
-      params: [txid, true]  // true for verbose output
-    });
+    const tx = await rpc.getRawTransaction(txid);
+    const depth = tx.blockhash ? await getBlockDepth(rpc, tx.blockhash) : undefined;
+    const deposit = parseDeposit(tx.txid, rawTransactionOutputs(tx), rules);
+    console.log(`🌉 [STYX] ${txid}: ${deposit.valid ? `valid deposit of ${deposit.deposit.amount} sats for ${deposit.recipient?.principal}` : deposit.problems.map(problem => problem.code).join(', ')}`);
     
-    const response = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-      },
-      body: requestBody
+    res.json({
+      ...deposit,
+      proof: proofReadiness(txid, depth, minConfirmations)
     });
-    
-    const text = await response.text();
-    const txData = JSON.parse(text);
-    
-    if (txData.error) {
-      console.error("RPC Error:", JSON.stringify(txData.error));
-      return res.status(500).json({ 
-        error: txData.error.message || 'Error retrieving transaction',
-        txid: txid 
-      });
-    }
-    
-    if (!txData.result) {
-      return res.status(404).json({ 
-        error: 'Transaction not found',
-        txid: txid 
-      });
+  } catch (error) {
+    console.error(`❌ [STYX] Error checking deposit ${txid}:`, error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { txid }));
+  }
+});
+
+const DEPOSIT_STATUSES: DepositStatus[] = ['invalid', 'pending_confirmations', 'ready', 'proven'];
+
+// Pool deposits found by the block scanner, newest first; ?recipient, ?fromHeight, ?toHeight,
+// ?status, ?minConfirmations (for ready) and ?limit
+api.get('/api/styx/deposits', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc, deposits } = network(res);
+  try {
+    const minConfirmations = parseMinConfirmations(req.query.minConfirmations);
+    if (minConfirmations === undefined) {
+      return res.status(400).json({ error: 'minConfirmations must be a positive integer' });
     }
-    
-    // Convert to mempool.space API format (IMPORTANT: Include scriptpubkey)
-    const mempoolFormatTx = {
-      txid: txData.result.txid,
-      version: txData.result.version,
-      locktime: txData.result.locktime,
-      vin: txData.result.vin.map((input: BitcoinInput) => ({
-        txid: input.txid,
-        vout: input.vout,
-        scriptsig: input.scriptsig || "",
-        sequence: input.sequence,
-        witness: input.witness || []
-      })),
-      vout: txData.result.vout.map((output: BitcoinOutput, index: number) => ({
-        scriptpubkey: output.scriptPubKey.hex, // IMPORTANT: Include this property
-        scriptpubkey_asm: output.scriptPubKey.asm,
-        scriptpubkey_type: output.scriptPubKey.type,
-        value: output.value,
-        n: index
-      })),
-      status: {
-        confirmed: !!txData.result.blockhash,
-        block_height: txData.result.height,
-        block_hash: txData.result.blockhash,
-        block_time: txData.result.blocktime
+    const height = (name: string) => {
+      const value = req.query[name];
+      if (value === undefined || value === '') {
+        return undefined;
       }
+      const parsed = Number(value);
+      return Number.isInteger(parsed) && parsed >= 0 ? parsed : NaN;
     };
+    const fromHeight = height('fromHeight');
+    const toHeight = height('toHeight');
+    if (Number.isNaN(fromHeight) || Number.isNaN(toHeight)) {
+      return res.status(400).json({ error: 'fromHeight and toHeight must be block heights' });
+    }
+    const status = req.query.status as DepositStatus | undefined;
+    if (status !== undefined && !DEPOSIT_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${DEPOSIT_STATUSES.join(', ')}` });
+    }
+    const limit = Math.min(Number(req.query.limit) || 100, 1000);
+    if (styxRulesOr503(res, {}) === undefined) {
+      return;
+    }
     
-    console.log(`Response format for output 0:`, JSON.stringify(mempoolFormatTx.vout[0]));
+    const tipHeight = await rpc.getBlockCount();
+    const matching = await deposits.query({
+      recipient: typeof req.query.recipient === 'string' ? req.query.recipient : undefined,
+      fromHeight,
+      toHeight,
+      status
+    }, tipHeight, minConfirmations);
+    const scan = await deposits.status();
     
-    res.json(mempoolFormatTx);
-  } catch (error) {
-    console.error('Error processing transaction data request:', error);
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error',
-      txid: req.params.txid 
+    res.json({
+      deposits: matching.slice(0, limit),
+      total: matching.length,
+      tip_height: tipHeight,
+      // How far the scanner got; deposits above this height are not indexed yet
+      scanned_height: scan?.height ?? null
     });
+  } catch (error) {
+    console.error('❌ [STYX] Error listing deposits:', error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, {}));
   }
 });
 
-// Add a UTXO fetching endpoint
-// Enhanced UTXO fetching endpoint with better logging
-// app.get('/api/address/:address/utxo', async (req, res) => {
-//   try {
-//     const { address } = req.params;
-//     const providedKey = req.headers['x-api-key'];
-    
-//     console.log(`[UTXO] Processing UTXO request for address: ${address}`);
-//     console.log(`[UTXO] API Key provided: ${providedKey ? 'Yes' : 'No'}`);
-    
-//     if (!providedKey || providedKey !== process.env.API_KEY) {
-//       console.log(`[UTXO] Authentication failed. Expected: ${process.env.API_KEY}, Got: ${providedKey}`);
-//       return res.status(401).json({ error: 'Unauthorized: Invalid API key' });
-//     }
-    
-//     console.log(`[UTXO] Authentication successful, proceeding with RPC call`);
-//     console.log(`[UTXO] RPC Host: ${process.env.RPC_HOST || 'localhost'}`);
-//     console.log(`[UTXO] RPC Port: ${process.env.RPC_PORT || '8332'}`);
-//     console.log(`[UTXO] RPC User set: ${process.env.RPC_USER ? 'Yes' : 'No'}`);
-    
-//     // Make RPC call to get UTXOs
-//     const requestBody = JSON.stringify({
-//       jsonrpc: '1.0',
-//       id: 'bitcoin-rpc',
-//       method: 'scantxoutset',
-//       params: ['start', [`addr(${address})`]]
-//     });
-    
-//     console.log(`[UTXO] RPC Request: ${requestBody}`);
-    
-//     // Start timing the request
-//     const startTime = Date.now();
-    
-//     try {
-//       const response = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-//         method: 'POST',
-//         headers: {
-//           'Content-Type': 'application/json',
-//           'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-//         },
-//         body: requestBody
-//       });
-      
-//       const endTime = Date.now();
-//       console.log(`[UTXO] RPC call took ${endTime - startTime}ms`);
-      
-//       if (!response.ok) {
-//         console.log(`[UTXO] RPC HTTP error: ${response.status} ${response.statusText}`);
-//       }
-      
-//       const text = await response.text();
-//       console.log(`[UTXO] RPC Response length: ${text.length} bytes`);
-      
-//       // Log a preview of the response (first 200 characters)
-//       console.log(`[UTXO] RPC Response preview: ${text.substring(0, 200)}...`);
-      
-//       const utxoData = JSON.parse(text) as RpcResponse<UtxoScanResult>;
-      
-//       if (utxoData.error) {
-//         console.error(`[UTXO] RPC Error:`, JSON.stringify(utxoData.error));
-//         return res.status(500).json({ 
-//           error: utxoData.error.message || 'Error retrieving UTXOs',
-//           address: address 
-//         });
-//       }
-      
-//       console.log(`[UTXO] Processing RPC result`);
-//       if (!utxoData.result || !utxoData.result.unspents) {
-//         console.log(`[UTXO] No UTXOs found for address ${address}`);
-//         return res.json([]);
-//       }
-      
-//       console.log(`[UTXO] Found ${utxoData.result.unspents.length} UTXOs for address ${address}`);
-      
-//       // Convert to mempool.space API format
-//       const formattedUtxos = utxoData.result.unspents.map(utxo => {
-//         // Log the UTXO format from Bitcoin Core
-//         console.log(`[UTXO] Processing UTXO: ${JSON.stringify(utxo)}`);
-        
-//         // scantxoutset returns txid:vout format, need to split it
-//         let txid, vout;
-//         if (utxo.txid && utxo.txid.includes(':')) {
-//           [txid, vout] = utxo.txid.split(':');
-//         } else {
-//           // Handle possible different format
-//           console.log(`[UTXO] Unexpected UTXO format: ${JSON.stringify(utxo)}`);
-//           txid = utxo.txid || '';
-//           vout = utxo.vout || 0;
-//         }
-        
-//         return {
-//           txid,
-//           vout: typeof vout === 'string' ? parseInt(vout) : vout,
-//           value: Math.round((utxo.amount || 0) * 100000000), // Convert BTC to satoshis
-//           status: {
-//             confirmed: true
-//           }
-//         };
-//       });
-      
-//       console.log(`[UTXO] Returning ${formattedUtxos.length} formatted UTXOs`);
-//       res.json(formattedUtxos);
-//     } catch (rpcError) {
-//       console.error(`[UTXO] Error during RPC call: ${rpcError instanceof Error ? rpcError.message : 'Unknown error'}`);
-//       console.error(`[UTXO] RPC call duration before error: ${Date.now() - startTime}ms`);
-//       if (rpcError instanceof Error && rpcError.stack) {
-//         console.error(`[UTXO] Error stack: ${rpcError.stack}`);
-//       }
-//       throw rpcError;
-//     }
-//   } catch (error) {
-//     console.error(`[UTXO] Error processing UTXO request: ${error instanceof Error ? error.message : 'Unknown error'}`);
-//     if (error instanceof Error && error.stack) {
-//       console.error(`[UTXO] Error stack: ${error.stack}`);
-//     }
-//     res.status(500).json({ 
-//       error: error instanceof Error ? error.message : 'Unknown error',
-//       address: req.params.address 
-//     });
-//   }
-// });
-// Update to proxy requests to mempool.space instead of using scantxoutset
-app.get('/api/address/:address/utxo', async (req, res) => {
+// Checks an unsigned deposit (raw tx hex, or PSBT as hex or base64) before it is signed;
+// parsed locally, the node is not asked
+api.post('/api/styx/deposit/validate', access.require('tx:read', 'tx'), express.text({ type: 'text/*', limit: '1mb' }), (req, res) => {
+  const input = typeof req.body === 'string' ? req.body : req.body?.psbt ?? req.body?.tx ?? req.body?.hex;
+  if (typeof input !== 'string' || input.trim() === '') {
+    return res.status(400).json({
+      error: 'Body must be an unsigned transaction in hex or a PSBT in hex or base64, as text/plain or as { "tx": "..." } / { "psbt": "..." }',
+      code: 'invalid_request'
+    });
+  }
+  const rules = styxRulesOr503(res, {});
+  if (!rules) {
+    return;
+  }
+  
   try {
-    const { address } = req.params;
-    const providedKey = req.headers['x-api-key'];
-    
-    if (!providedKey || providedKey !== process.env.API_KEY) {
-      return res.status(401).json({ error: 'Unauthorized: Invalid API key' });
+    const result = validateUnsignedDeposit(input, rules);
+    console.log(`🌉 [STYX] Validated unsigned ${result.format} ${result.txid}: ${result.valid ? 'pass' : result.rules.filter(rule => rule.status === 'fail').map(rule => rule.rule).join(', ')}`);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof DepositInputError) {
+      return res.status(400).json({ error: error.message, code: 'invalid_transaction' });
     }
+    console.error('❌ [STYX] Error validating deposit:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Endpoint for getting full transaction data - fix the format
+api.get('/api/tx/:txid', access.require('tx:read', 'tx'), async (req, res) => {
+  const { rpc, params } = network(res);
+  try {
+    const { txid } = req.params;
+    console.log(`Processing transaction data request for txid: ${txid}`);
     
-    console.log(`Proxying UTXO request for address: ${address} to mempool.space`);
+    // mempool.space / Esplora transaction format, prevouts and addresses included
+    const [{ tx, esplora }, tipHeight] = await Promise.all([
+      getEsploraTransaction(rpc, txid, params),
+      rpc.getBlockCount()
+    ]);
     
-    // Forward the request to mempool.space
-    const mempoolResponse = await fetch(`https://mempool.space/api/address/${address}/utxo`);
+    // Recomputed from the rebuilt transaction, which also checks it against the node's txid
+    const wtxid = computeWtxid(transactionFromRpc(tx));
     
-    if (!mempoolResponse.ok) {
-      throw new Error(`Mempool.space API error: ${mempoolResponse.status} ${mempoolResponse.statusText}`);
+    res.json({
+      ...esplora,
+      wtxid,
+      // confirmations and tip_height are ours, Esplora leaves them out
+      status: { ...esplora.status, confirmations: tx.confirmations ?? 0, tip_height: tipHeight }
+    });
+  } catch (error) {
+    console.error('Error processing transaction data request:', error);
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { txid: req.params.txid }));
+  }
+});
+
+// UTXOs of an address, from the node's watch-only wallet (mempool.space format)
+api.get('/api/address/:address/utxo', access.require('tx:read', 'tx'), async (req, res) => {
+  const { name, params, utxos } = network(res);
+  const { address } = req.params;
+  try {
+    // Addresses are checked against the chain the node is actually on
+    if (!params) {
+      return res.status(503).json({
+        error: 'Network not detected yet, the node has not answered getblockchaininfo',
+        address,
+        network: name
+      });
+    }
+    const validation = validateAddress(address, params);
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: validation.reason,
+        address,
+        network: params.name
+      });
     }
     
-    const utxos = await mempoolResponse.json();
-    res.json(utxos);
+    res.json(await utxos.list(address));
   } catch (error) {
+    if (utxos.fallbackEnabled) {
+      console.warn(`⚠️ [UTXO] Wallet lookup failed for ${address}, using the Esplora fallback:`, error instanceof Error ? error.message : error);
+      try {
+        return res.json(await utxos.listFromEsplora(address));
+      } catch (fallbackError) {
+        console.error('❌ [UTXO] Esplora fallback failed:', fallbackError);
+      }
+    }
     console.error('Error processing UTXO request:', error);
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error',
-      address: req.params.address 
-    });
+    res.status(httpStatusForError(error)).json(rpcErrorBody(error, { address }));
   }
 });
 
-const KENNY_RATE_LIMIT = 5; // Max 5 Kenny requests per hour per API key
-const KENNY_RATE_WINDOW = 60 * 60 * 1000; // 1 hour
-
 // Start Kenny processing (returns immediately)
-app.post('/api/proof-kenny-start/:txid', async (req, res) => {
+api.post('/api/proof-kenny-start/:txid', access.require('proof', 'kenny'), async (req, res) => {
+  const { rpc, kennyProofCache, ongoingKennyRequests, kennyInFlight, kennyJobs, kennyEvents } = network(res);
   try {
     const { txid } = req.params;
     const jobId = `kenny-${txid}-${Date.now()}`;
     
     console.log(`🔄 [KENNY-START] Starting Kenny job ${jobId} for txid: ${txid}`);
     
+    const minConfirmations = parseMinConfirmations(req.query.minConfirmations);
+    if (minConfirmations === undefined) {
+      return invalidMinConfirmations(res, txid);
+    }
+    
     // Check if already cached
-    if (kennyProofCache.has(txid)) {
+    const cached = await kennyProofCache.get(txid);
+    if (cached) {
+      const shortfall = depthShortfall(txid, await getBlockDepth(rpc, cached.blockHash), minConfirmations);
+      if (shortfall) {
+        return sendDepthShortfall(res, shortfall);
+      }
       console.log(`✅ [KENNY-START] Found cached result for txid: ${txid}`);
+      await kennyEvents.append(jobId, 'completed', { result: cached, cached: true });
       return res.json({
         jobId,
         status: 'completed',
-        result: kennyProofCache.get(txid)
+        result: cached
       });
     }
     
-    // Check if already processing
-    if (ongoingKennyRequests.has(txid)) {
+    // Check if already processing, on this or another worker
+    const startTime = Date.now();
+    if (ongoingKennyRequests.has(txid) || !(await kennyInFlight.setIfAbsent(txid, { startTime }))) {
       console.log(`⏳ [KENNY-START] Already processing txid: ${txid}`);
       return res.json({
         jobId: `existing-${txid}`,
@@ -963,36 +1486,44 @@ app.post('/api/proof-kenny-start/:txid', async (req, res) => {
     }
     
     // Start new job
-    kennyJobs.set(jobId, {
+    await kennyJobs.set(jobId, {
       status: 'processing',
-      startTime: Date.now()
+      txid,
+      startTime
     });
     
     // Start processing in background (don't await)
-    const kennyPromise = processKennyRequest(txid);
+    const kennyPromise = trackedKennyRequest(network(res), txid, minConfirmations, jobId);
     ongoingKennyRequests.set(txid, kennyPromise);
     
     // Handle completion/failure in background
     kennyPromise
-      .then(result => {
-        kennyProofCache.set(txid, result);
-        kennyJobs.set(jobId, {
+      .then(async result => {
+        if (result.verified) {
+          await kennyProofCache.set(txid, result);
+          recordProven(network(res), txid);
+        }
+        await kennyJobs.set(jobId, {
           status: 'completed',
+          txid,
           result,
-          startTime: kennyJobs.get(jobId)?.startTime || Date.now()
+          startTime
         });
         console.log(`✅ [KENNY-JOB] Job ${jobId} completed`);
-      })
-      .catch(error => {
-        kennyJobs.set(jobId, {
+      }, async error => {
+        console.error(`❌ [KENNY-JOB] Job ${jobId} failed:`, error);
+        await kennyJobs.set(jobId, {
           status: 'failed',
+          txid,
           error: error instanceof Error ? error.message : 'Unknown error',
-          startTime: kennyJobs.get(jobId)?.startTime || Date.now()
+          depth: error instanceof InsufficientDepthError ? error.shortfall.body : undefined,
+          startTime
         });
-        console.error(`❌ [KENNY-JOB] Job ${jobId} failed:`, error);
       })
+      .catch(error => console.error(`❌ [KENNY-JOB] Failed to record result for ${jobId}:`, error))
       .finally(() => {
         ongoingKennyRequests.delete(txid);
+        kennyInFlight.delete(txid).catch(() => undefined);
       });
     
     // Return immediately
@@ -1010,11 +1541,12 @@ app.post('/api/proof-kenny-start/:txid', async (req, res) => {
 });
 
 // Check job status
-app.get('/api/proof-kenny-status/:jobId', async (req, res) => {
+api.get('/api/proof-kenny-status/:jobId', access.require('proof', 'status'), async (req, res) => {
+  const { reorgEvents, kennyJobs } = network(res);
   try {
     const { jobId } = req.params;
     
-    const job = kennyJobs.get(jobId);
+    const job = await kennyJobs.get(jobId);
     if (!job) {
       return res.status(404).json({
         error: 'Job not found',
@@ -1024,12 +1556,18 @@ app.get('/api/proof-kenny-status/:jobId', async (req, res) => {
     
     const runtime = Math.round((Date.now() - job.startTime) / 1000);
     
+    // A completed job whose block has since been reorged out carries a stale proof
+    const reorged = job.txid ? await reorgEvents.get(job.txid) : undefined;
+    const stale = job.status === 'completed' && reorged?.oldBlockHash === job.result?.blockHash;
+    
     res.json({
       jobId,
-      status: job.status,
+      status: stale ? 'reorged' : job.status,
       runtime: `${runtime} seconds`,
       result: job.result,
-      error: job.error
+      error: job.error,
+      depth: job.depth,
+      reorged
     });
     
   } catch (error) {
@@ -1039,40 +1577,30 @@ app.get('/api/proof-kenny-status/:jobId', async (req, res) => {
   }
 });
 
-app.get('/api/proof-kenny/:txid', async (req, res) => {
+api.get('/api/proof-kenny/:txid', access.require('proof', 'kenny'), async (req, res) => {
+  const { rpc, kennyProofCache, ongoingKennyRequests, kennyInFlight } = network(res);
   try {
     const { txid } = req.params;
-    const apiKey = req.headers['x-api-key'] as string;
+    const verifyMode = parseVerifyMode(req.query.verify);
     
     console.log(`🔍 [KENNY] Processing request for txid: ${txid}`);
     
-    // STEP 1: RATE LIMITING (optional but recommended)
-    const now = Date.now();
-    const rateLimitKey = `${apiKey}-kenny`;
-    const currentUsage = kennyRequestTracker.get(rateLimitKey);
-    
-    if (currentUsage) {
-      if (now < currentUsage.resetTime) {
-        if (currentUsage.count >= KENNY_RATE_LIMIT) {
-          return res.status(429).json({
-            error: 'Rate limit exceeded for Kenny endpoint. Max 5 requests per hour.',
-            retryAfter: Math.ceil((currentUsage.resetTime - now) / 1000)
-          });
-        }
-        currentUsage.count++;
-      } else {
-        kennyRequestTracker.set(rateLimitKey, { count: 1, resetTime: now + KENNY_RATE_WINDOW });
-      }
-    } else {
-      kennyRequestTracker.set(rateLimitKey, { count: 1, resetTime: now + KENNY_RATE_WINDOW });
+    const minConfirmations = parseMinConfirmations(req.query.minConfirmations);
+    if (minConfirmations === undefined) {
+      return invalidMinConfirmations(res, txid);
     }
     
-    console.log(`🔍 [KENNY] Rate limit check passed (${kennyRequestTracker.get(rateLimitKey)?.count}/${KENNY_RATE_LIMIT})`);
+    // STEP 1: RATE LIMITING is the route's `kenny` quota (see auth.ts)
     
     // STEP 2: CHECK CACHE FIRST
-    if (kennyProofCache.has(txid)) {
+    const cached = await kennyProofCache.get(txid);
+    if (cached) {
+      const shortfall = depthShortfall(txid, await getBlockDepth(rpc, cached.blockHash), minConfirmations);
+      if (shortfall) {
+        return sendDepthShortfall(res, shortfall);
+      }
       console.log(`✅ [CACHE] Found cached Kenny proof for txid: ${txid}`);
-      return res.json(kennyProofCache.get(txid));
+      return sendProof(res, txid, cached, verifyMode);
     }
     
     // STEP 3: CHECK IF ALREADY PROCESSING
@@ -1080,8 +1608,11 @@ app.get('/api/proof-kenny/:txid', async (req, res) => {
       console.log(`⏳ [QUEUE] Kenny request already in progress for txid: ${txid}, waiting for result...`);
       try {
         const result = await ongoingKennyRequests.get(txid);
-        return res.json(result);
+        return sendProof(res, txid, result, verifyMode);
       } catch (error) {
+        if (error instanceof InsufficientDepthError) {
+          return sendDepthShortfall(res, error.shortfall);
+        }
         return res.status(500).json({ 
           error: error instanceof Error ? error.message : 'Unknown error',
           txid: txid
@@ -1092,28 +1623,43 @@ app.get('/api/proof-kenny/:txid', async (req, res) => {
     // STEP 4: START NEW KENNY PROCESSING
     console.log(`🔄 [KENNY] Starting new Kenny request for txid: ${txid}`);
     
-    const kennyPromise = processKennyRequest(txid);
-    ongoingKennyRequests.set(txid, kennyPromise);
+    // Claim the txid before starting so a failed store write leaves nothing behind
+    if (!(await kennyInFlight.setIfAbsent(txid, { startTime: Date.now() }))) {
+      console.log(`⏳ [QUEUE] Kenny request already in progress on another worker for txid: ${txid}`);
+      return res.status(202).json({
+        txid: txid,
+        status: 'processing',
+        statusUrl: `/api/proof-kenny-status-by-txid/${txid}`
+      });
+    }
     
     try {
+      const kennyPromise = trackedKennyRequest(network(res), txid, minConfirmations, `kenny-${txid}-${Date.now()}`);
+      ongoingKennyRequests.set(txid, kennyPromise);
       const result = await kennyPromise;
       
-      // CACHE THE RESULT (proof data never changes for confirmed transactions)
-      kennyProofCache.set(txid, result);
-      console.log(`✅ [CACHE] Cached Kenny proof for txid: ${txid}`);
+      // CACHE THE RESULT (keyed by block; the reorg watcher evicts it if the block leaves the main chain)
+      // Proofs that failed self-verification are not cached so the next request retries
+      if (result.verified) {
+        await kennyProofCache.set(txid, result);
+        console.log(`✅ [CACHE] Cached Kenny proof for txid: ${txid}`);
+      }
       
-      res.json(result);
+      sendProof(res, txid, result, verifyMode);
       
     } catch (error) {
+      if (error instanceof InsufficientDepthError) {
+        return sendDepthShortfall(res, error.shortfall);
+      }
       console.error('❌ [KENNY] Kenny processing failed:', error);
-      res.status(500).json({ 
-        error: error instanceof Error ? error.message : 'Unknown error',
+      res.status(httpStatusForError(error)).json(rpcErrorBody(error, {
         txid: txid,
         timestamp: new Date().toISOString()
-      });
+      }));
     } finally {
       // Clean up ongoing request tracker
       ongoingKennyRequests.delete(txid);
+      await kennyInFlight.delete(txid).catch(() => undefined);
     }
     
   } catch (error) {
@@ -1127,28 +1673,44 @@ app.get('/api/proof-kenny/:txid', async (req, res) => {
 });
 
 // Check Kenny status by txid (cleaner for cron jobs)
-app.get('/api/proof-kenny-status-by-txid/:txid', async (req, res) => {
+api.get('/api/proof-kenny-status-by-txid/:txid', access.require('proof', 'status'), async (req, res) => {
+  const { kennyProofCache, reorgEvents, ongoingKennyRequests, kennyInFlight } = network(res);
   try {
     const { txid } = req.params;
     
     console.log(`🔍 [KENNY-STATUS] Checking status for txid: ${txid}`);
     
+    const reorged = await reorgEvents.get(txid);
+    
     // Check if cached (completed)
-    if (kennyProofCache.has(txid)) {
+    const cached = await kennyProofCache.get(txid);
+    if (cached) {
       return res.json({
         txid,
         status: 'completed',
-        result: kennyProofCache.get(txid),
-        message: 'Found in cache'
+        result: cached,
+        message: 'Found in cache',
+        reorged
       });
     }
     
-    // Check if currently processing
-    if (ongoingKennyRequests.has(txid)) {
+    // Check if currently processing, on this or another worker
+    if (ongoingKennyRequests.has(txid) || await kennyInFlight.has(txid)) {
       return res.json({
         txid,
         status: 'processing',
-        message: 'Currently being processed'
+        message: 'Currently being processed',
+        reorged
+      });
+    }
+    
+    // The cached proof was evicted by a reorg and not (yet) rebuilt
+    if (reorged) {
+      return res.json({
+        txid,
+        status: 'reorged',
+        message: `Block ${reorged.oldBlockHash} left the main chain, request a new proof`,
+        reorged
       });
     }
     
@@ -1167,245 +1729,210 @@ app.get('/api/proof-kenny-status-by-txid/:txid', async (req, res) => {
   }
 });
 
-// ADD this function after the Kenny endpoint definitions and before the cache clearing endpoints
-async function processKennyRequest(txid: string): Promise<any> {
-  console.log(`🔄 [KENNY] Starting simplified Kenny processing for txid: ${txid}`);
+// Sends one event in SSE framing
+function writeSseEvent(res: express.Response, event: JobEvent) {
+  res.write(`id: ${event.id}\nevent: ${event.phase}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+// Streams a Kenny run's events as Server-Sent Events, replaying everything after
+// Last-Event-ID first and ending the stream after the completed/failed event.
+// The stored log is what gets sent, so runs on another worker show up at the next heartbeat.
+function streamKennyEvents(req: express.Request, res: express.Response, runId: string) {
+  const { kennyEvents } = network(res);
+  let sent = Number(req.headers['last-event-id'] ?? req.query.lastEventId ?? 0) || 0;
+  let closed = false;
+  let flushing = Promise.resolve();
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 3000\n\n');
+  
+  const flush = () => {
+    flushing = flushing.then(async () => {
+      if (closed) {
+        return;
+      }
+      const events = await kennyEvents.since(runId);
+      for (const event of events.filter(event => event.id > sent)) {
+        writeSseEvent(res, event);
+        sent = event.id;
+      }
+      const last = events[events.length - 1];
+      if (last && isTerminalPhase(last.phase)) {
+        close();
+      }
+    }).catch(error => {
+      console.error(`❌ [KENNY-EVENTS] Failed to stream events for ${runId}:`, error);
+      close();
+    });
+  };
   
-  // Import Kenny's tool
-  const { bitcoinTxProof } = await import('bitcoin-tx-proof');
+  const unsubscribe = kennyEvents.subscribe(runId, flush);
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+    flush();
+  }, SSE_HEARTBEAT_MS);
   
-  // Get block height first (needed for Kenny)
-  let blockHeight: number;
-  let blockHash: string;
+  function close() {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  }
   
+  req.on('close', close);
+  flush();
+}
+
+// Live progress of a Kenny job (Server-Sent Events)
+api.get('/api/proof-kenny-events/:jobId', access.require('proof', 'status'), async (req, res) => {
+  const { kennyEvents, kennyLatestRun } = network(res);
   try {
-    // Get transaction info to find blockhash and height
-    const txRequestBody = JSON.stringify({
-      jsonrpc: '1.0',
-      id: 'bitcoin-rpc',
-      method: 'getrawtransaction',
-      params: [txid, true]
-    });
-    
-    const txResponse = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-      },
-      body: txRequestBody
-    });
-    
-    const txInfo = await txResponse.json() as TxInfo;
+    let { jobId } = req.params;
     
-    if (!txInfo.result || !txInfo.result.blockhash) {
-      throw new Error("Transaction not confirmed or not found");
+    // proof-kenny-start answers `existing-<txid>` when the txid was already being processed
+    if (jobId.startsWith('existing-')) {
+      jobId = (await kennyLatestRun.get(jobId.slice('existing-'.length))) ?? jobId;
     }
     
-    blockHash = txInfo.result.blockhash;
+    if (!(await kennyEvents.exists(jobId))) {
+      return res.status(404).json({
+        error: 'No events for this job',
+        jobId
+      });
+    }
     
-    // Get block height from block hash
-    const blockRequestBody = JSON.stringify({
-      jsonrpc: '1.0',
-      id: 'bitcoin-rpc',
-      method: 'getblock',
-      params: [blockHash]
-    });
+    console.log(`📡 [KENNY-EVENTS] Streaming events for job ${jobId}`);
+    streamKennyEvents(req, res, jobId);
     
-    const blockResponse = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-      },
-      body: blockRequestBody
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
     });
+  }
+});
+
+// Live progress of the latest Kenny run for a txid (Server-Sent Events)
+api.get('/api/proof-kenny-events-by-txid/:txid', access.require('proof', 'status'), async (req, res) => {
+  const { kennyProofCache, kennyEvents, kennyLatestRun } = network(res);
+  try {
+    const { txid } = req.params;
     
-    const blockInfo = await blockResponse.json() as BlockInfo;
-    
-    if (!blockInfo.result || !blockInfo.result.height) {
-      throw new Error("Could not get block height");  
+    const runId = await kennyLatestRun.get(txid);
+    if (runId && await kennyEvents.exists(runId)) {
+      console.log(`📡 [KENNY-EVENTS] Streaming events for txid ${txid} (run ${runId})`);
+      return streamKennyEvents(req, res, runId);
     }
     
-    blockHeight = blockInfo.result.height;
+    // No run recorded, but a cached proof: a single completed event
+    const cached = await kennyProofCache.get(txid);
+    if (cached) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      writeSseEvent(res, { id: 1, phase: 'completed', message: 'Completed', data: { result: cached, cached: true }, at: Date.now() });
+      return res.end();
+    }
     
-    console.log(`✅ [KENNY] Found block height: ${blockHeight}, blockhash: ${blockHash}`);
+    res.status(404).json({
+      error: 'No Kenny run found for this txid',
+      txid
+    });
     
   } catch (error) {
-    throw new Error(`Failed to get transaction/block info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      txid: req.params.txid
+    });
   }
-  
-  // Configure Kenny's RPC parameters
-  const btcRPCConfig = {
-    url: `http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`,
-    username: process.env.RPC_USER || '',
-    password: process.env.RPC_PASS || ''
+});
+
+// Runs processKennyRequest with its phases recorded under runId for the SSE stream;
+// the completed event carries the proof, the failed event the error
+async function trackedKennyRequest(net: Network, txid: string, minConfirmations: number, runId: string): Promise<any> {
+  const { kennyEvents, kennyLatestRun } = net;
+  await kennyLatestRun.set(txid, runId);
+  const record: KennyPhaseListener = (phase, data) => {
+    kennyEvents.append(runId, phase, data)
+      .catch(error => console.error(`❌ [KENNY-EVENTS] Failed to record ${phase} for ${runId}:`, error));
   };
   
-  // Call Kenny's bitcoinTxProof function
-  console.log(`🔄 [KENNY] Calling Kenny's bitcoinTxProof for block height ${blockHeight}...`);
-  const proof = await bitcoinTxProof(txid, blockHeight, btcRPCConfig);
-
-  console.log("🔍 [KENNY-CHECK] witnessMerkleProof:", proof.witnessMerkleProof);
-console.log("🔍 [KENNY-CHECK] witnessMerkleProof length:", proof.witnessMerkleProof?.length || 0);
-
-if (!proof.witnessMerkleProof || proof.witnessMerkleProof.length === 0) {
-  throw new Error(`Kenny returned empty witnessMerkleProof - likely ES module import issue`);
+  try {
+    const result = await processKennyRequest(net, txid, minConfirmations, record);
+    record('completed', { result });
+    return result;
+  } catch (error) {
+    record('failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      depth: error instanceof InsufficientDepthError ? error.shortfall.body : undefined
+    });
+    throw error;
+  }
 }
 
-  console.log("🔍 [KENNY-FULL] Complete Kenny proof object:");
-console.log("🔍 [KENNY-FULL] Keys:", Object.keys(proof));
-console.log("🔍 [KENNY-FULL] Types:", Object.keys(proof).map(key => `${key}: ${typeof (proof as any)[key]}`));
-
-// Check every possible property that might contain the witness root
-console.log("🔍 [KENNY-PROPS] witnessMerkleRoot:", (proof as any).witnessMerkleRoot);
-console.log("🔍 [KENNY-PROPS] witnessRoot:", (proof as any).witnessRoot);
-console.log("🔍 [KENNY-PROPS] witnessCommitment:", (proof as any).witnessCommitment);
-console.log("🔍 [KENNY-PROPS] witnessMerkleProof length:", proof.witnessMerkleProof?.length);
-console.log("🔍 [KENNY-PROPS] witnessReservedValue:", proof.witnessReservedValue);
-
-// Log the full proof object (truncated)
-console.log("🔍 [KENNY-FULL] Full proof (first 500 chars):", JSON.stringify(proof, null, 2).slice(0, 500));
-  
-console.log("✅ [KENNY] Kenny's bitcoinTxProof completed successfully");
-console.log(`✅ [KENNY] Proof keys:`, Object.keys(proof));
-
-// Debug Kenny's proof structure to match Friedger's format
-console.log("🔍 [KENNY-STRUCTURE] Kenny proof analysis:");
-console.log("🔍 [KENNY-STRUCTURE] - blockHeight:", proof.blockHeight);
-console.log("🔍 [KENNY-STRUCTURE] - txIndex:", proof.txIndex);
-console.log("🔍 [KENNY-STRUCTURE] - merkleProofDepth:", proof.merkleProofDepth);
-console.log("🔍 [KENNY-STRUCTURE] - witnessMerkleRoot:", proof.witnessMerkleRoot);
-console.log("🔍 [KENNY-STRUCTURE] - witnessMerkleProof length:", proof.witnessMerkleProof?.length);
-console.log("🔍 [KENNY-STRUCTURE] - witnessReservedValue:", proof.witnessReservedValue);
-console.log("🔍 [KENNY-STRUCTURE] - coinbaseTransaction length:", proof.coinbaseTransaction?.length);
-console.log("🔍 [KENNY-STRUCTURE] - coinbaseMerkleProof length:", proof.coinbaseMerkleProof?.length);
-
-// Verify we have the exact same properties as Friedger's proof
-const expectedProperties = ['blockHeight', 'blockHeader', 'txIndex', 'merkleProofDepth', 'witnessMerkleRoot', 'witnessMerkleProof', 'witnessReservedValue', 'coinbaseTransaction', 'coinbaseMerkleProof'];
-const missingProperties = expectedProperties.filter(prop => !(prop in proof));
-if (missingProperties.length > 0) {
-  console.log("🚨 [KENNY-STRUCTURE] Missing properties:", missingProperties);
-} else {
-  console.log("✅ [KENNY-STRUCTURE] All expected properties present");
-}
-  
-  
-  // Now get the detailed transaction data using RPC (this is Friedger's key insight)
-  console.log(`🔄 [KENNY] Getting detailed transaction data via RPC...`);
-  
-  const detailTxRequestBody = JSON.stringify({
-    jsonrpc: '1.0',
-    id: 'bitcoin-rpc', 
-    method: 'getrawtransaction',
-    params: [txid, 1, blockHash] // verbose=1, include blockhash
-  });
-  
-  const detailTxResponse = await fetch(`http://${process.env.RPC_HOST || 'localhost'}:${process.env.RPC_PORT || '8332'}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': 'Basic ' + Buffer.from(`${process.env.RPC_USER || ''}:${process.env.RPC_PASS || ''}`).toString('base64')
-    },
-    body: detailTxRequestBody
-  });
+// ADD this function after the Kenny endpoint definitions and before the cache clearing endpoints
+async function processKennyRequest(
+  net: Network,
+  txid: string,
+  minConfirmations = MIN_PROOF_CONFIRMATIONS,
+  onPhase?: KennyPhaseListener
+): Promise<any> {
+  const { rpc, proofProviders } = net;
+  console.log(`🔄 [KENNY] Starting simplified Kenny processing for txid: ${txid}`);
+  onPhase?.('looking_up_tx', { txid });
   
-  const txDetail = await detailTxResponse.json() as TxDetail;
+  let txInfo: RawTransaction;
   
-  if (!txDetail.result) {
-    throw new Error("Could not get detailed transaction data");
+  try {
+    // Get transaction info to find the blockhash
+    txInfo = await rpc.getRawTransaction(txid);
+    
+  } catch (error) {
+    if (error instanceof RpcError) {
+      throw error;
+    }
+    throw new Error(`Failed to get transaction/block info: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
   
-  const tx = txDetail.result;
-  
-  console.log("✅ [KENNY] Got detailed transaction data via RPC");
+  // Too shallow (or unconfirmed) transactions get a 409/425 instead of a proof
+  const blockHash = txInfo.blockhash;
+  if (!blockHash) {
+    throw new InsufficientDepthError(unconfirmedShortfall(txid, minConfirmations, await rpc.getBlockCount()));
+  }
+  const depth = await getBlockDepth(rpc, blockHash);
+  const shortfall = depthShortfall(txid, depth, minConfirmations);
+  if (shortfall) {
+    throw new InsufficientDepthError(shortfall);
+  }
   
-  // Calculate witness data from transaction inputs (Friedger's method)
-  let witnessData = tx.vin.reduce((acc: string, input: any) => {
-    if (input.txinwitness && input.txinwitness.length > 0) {
-      // Add witness stack count (number of witness items)
-      const stackCount = input.txinwitness.length.toString(16).padStart(2, '0');
-      acc += stackCount;
-      
-      // Add each witness item with its length prefix
-      for (const witnessItem of input.txinwitness) {
-        const itemLength = (witnessItem.length / 2).toString(16).padStart(2, '0');
-        acc += itemLength + witnessItem;
-      }
+  try {
+    // The lookup and depth check above already have the tx and the block height
+    const result = await proofProviders.getProof(
+      { txid, blockHash, blockHeight: depth.blockHeight, tx: txInfo, onPhase },
+      'bitcoin-tx-proof'
+    );
+    return { ...result.proof, blockHash, verified: true, verification: result.verification, provider: result.provider };
+  } catch (error) {
+    if (!(error instanceof ProofProvidersExhaustedError)) {
+      throw error;
     }
-    return acc;
-  }, "");
-  
-  console.log(`✅ [KENNY] Calculated witness data: ${witnessData.length} chars`);
-  // In your processKennyRequest, after witness calculation:
-console.log(`🔍 [WITNESS-RAW] txinwitness array:`, tx.vin[0].txinwitness);
-console.log(`🔍 [WITNESS-CALC] Calculated:`, witnessData);
-console.log(`🔍 [WITNESS-EXPECTED] Friedger's:`, "024730440220704c48e3c46f6d1b663ba202f7395af2b647266e126be5b0d98855cf62a35b9802206ff5c6ecd822d8a782a895fab162fcfa392af4a0c915045afaa84aa30f8e9b8c012103f64b159b714d55ff027265c25a1a76daba8fec4cf2fa4daa424aebd4c36fb600");
-
-// If they don't match, let's see what's different
-if (witnessData !== "024730440220704c48e3c46f6d1b663ba202f7395af2b647266e126be5b0d98855cf62a35b9802206ff5c6ecd822d8a782a895fab162fcfa392af4a0c915045afaa84aa30f8e9b8c012103f64b159b714d55ff027265c25a1a76daba8fec4cf2fa4daa424aebd4c36fb600") {
-  console.log(`🚨 [WITNESS-MISMATCH] Calculated length:`, witnessData.length);
-  console.log(`🚨 [WITNESS-MISMATCH] Expected length:`, 208);
-  console.log(`🚨 [WITNESS-MISMATCH] First 50 chars calculated:`, witnessData.slice(0, 50));
-  console.log(`🚨 [WITNESS-MISMATCH] First 50 chars expected:`, "024730440220704c48e3c46f6d1b663ba202f7395af2b647266e");
-}
-  
-  
-  // REPLACE with this Friedger-compatible format:
-// Return the formatted proof matching Friedger's exact structure
-const formattedProof = {
-  // Standard proof fields
-  segwit: true,
-  height: proof.blockHeight,
-  header: proof.blockHeader,
-  txIndex: proof.txIndex,
-  treeDepth: proof.merkleProofDepth,
-  
-  // SegWit proof chunks for Clarity (chunked for size limits)
-  computedWtxidRoot: proof.witnessMerkleRoot, // Use Kenny's computed root directly
-  ctxHex: proof.legacyCoinbaseTxHex, // Kenny's coinbase transaction
-  
-  // Friedger's method: Include RPC transaction data directly
-  rpcTx: tx,
-  witnessDataCalculated: witnessData,
-  
-  // Additional Kenny properties for compatibility
-  witnessMerkleRoot: proof.witnessMerkleRoot,
-  witnessMerkleProof: proof.witnessMerkleProof,
-  witnessReservedValue: proof.witnessReservedValue,
-  legacyCoinbaseTxHex: proof.legacyCoinbaseTxHex, // Legacy name compatibility
-  coinbaseMerkleProof: proof.coinbaseMerkleProof
-};
-
-// 3. ADD: Enhanced debug logging before return
-// ADD this section right after the formattedProof definition:
-console.log("🎯 [KENNY-FINAL] Final proof verification:");
-console.log("🎯 [KENNY-FINAL] - height:", formattedProof.height);
-console.log("🎯 [KENNY-FINAL] - txIndex:", formattedProof.txIndex);
-console.log("🎯 [KENNY-FINAL] - witnessData length:", witnessData.length);
-console.log("🎯 [KENNY-FINAL] - computedWtxidRoot:", formattedProof.computedWtxidRoot);
-console.log("🎯 [KENNY-FINAL] - witnessMerkleRoot:", formattedProof.witnessMerkleRoot);
-console.log("🎯 [KENNY-FINAL] - Match:", formattedProof.computedWtxidRoot === formattedProof.witnessMerkleRoot);
-console.log("🎯 [KENNY-FINAL] - rpcTx present:", !!formattedProof.rpcTx);
-console.log("🎯 [KENNY-FINAL] - rpcTx.vin length:", formattedProof.rpcTx?.vin?.length);
-console.log("🎯 [KENNY-FINAL] - rpcTx.vout length:", formattedProof.rpcTx?.vout?.length);
-
-console.log("rapha witnessMerkleProof", formattedProof.witnessMerkleProof);
-console.log("rapha coinbaseMerkleProof", formattedProof.coinbaseMerkleProof);
-
-// Verify against Friedger's expected structure
-const friedgerTxid = "a54f313f68172ac996c37d36baa885486dfea900cce4debca3fcdea7ea45f64f";
-if (txid === friedgerTxid) {
-  console.log("🎯 [FRIEDGER-VERIFY] This is Friedger's test transaction!");
-  console.log("🎯 [FRIEDGER-VERIFY] Expected height: 906982, Got:", formattedProof.height);
-  console.log("🎯 [FRIEDGER-VERIFY] Expected txIndex: 3428, Got:", formattedProof.txIndex);
-  console.log("🎯 [FRIEDGER-VERIFY] Expected witnessMerkleRoot: e18fcc4bc6177bef5c1c1b1fc1f1b46a19571381b2d0729c2648edb7d252a456");
-  console.log("🎯 [FRIEDGER-VERIFY] Got witnessMerkleRoot:", formattedProof.witnessMerkleRoot);
-}
-
-  
-  console.log(`✅ [KENNY] Final proof: height=${formattedProof.height}, txIndex=${formattedProof.txIndex}, witnessData=${witnessData.length} chars`);
-  return formattedProof;
+    // Unverified Kenny proofs are still returned, flagged, as before
+    if (error.unverified) {
+      return {
+        ...error.unverified.proof,
+        blockHash,
+        verified: false,
+        verification: error.unverified.verification,
+        provider: error.unverified.provider
+      };
+    }
+    throw error.lastError;
+  }
 }
 
 interface KennyProofResult {
@@ -1420,15 +1947,6 @@ interface KennyProofResult {
   coinbaseMerkleProof: string;
 }
 
-interface BitcoinRPCResponse<T> {
-  result?: T;
-  error?: {
-    code: number;
-    message: string;
-  };
-  id: string;
-}
-
 interface BlockData {
   tx: Array<{
     txid: string;
@@ -1444,34 +1962,18 @@ interface BlockDataWithTxIds {
   tx: string[];
 }
 
-function extractWitnessCommitment(coinbaseTxHex: string): string | null {
-  try {
-    const commitmentPattern = /aa21a9ed([0-9a-fA-F]{64})/i;
-    const match = coinbaseTxHex.match(commitmentPattern);
-    
-    if (match && match[1]) {
-      const witnessCommitment = match[1].toLowerCase();
-      if (witnessCommitment !== '0000000000000000000000000000000000000000000000000000000000000000') {
-        return witnessCommitment;
-      }
-    }
-    
-    return null;
-  } catch (error) {
-    return null;
-  }
-}
-
 // Add a cache clearing endpoint for testing
-app.delete('/api/proof-kenny-cache/:txid', async (req, res) => {
+api.delete('/api/proof-kenny-cache/:txid', access.require('admin', 'admin'), async (req, res) => {
+  const { kennyProofCache, ongoingKennyRequests, kennyInFlight } = network(res);
   try {
     const { txid } = req.params;
     
     // Clear from cache
-    kennyProofCache.delete(txid);
+    await kennyProofCache.delete(txid);
     
     // Clear from ongoing requests
     ongoingKennyRequests.delete(txid);
+    await kennyInFlight.delete(txid);
     
     console.log(`🗑️ [CACHE] Cleared cache for txid: ${txid}`);
     
@@ -1488,11 +1990,16 @@ app.delete('/api/proof-kenny-cache/:txid', async (req, res) => {
 });
 
 // Or clear all cache
-app.delete('/api/proof-kenny-cache-all', async (req, res) => {
+api.delete('/api/proof-kenny-cache-all', access.require('admin', 'admin'), async (req, res) => {
+  const { kennyProofCache, reorgEvents, ongoingKennyRequests, kennyInFlight, kennyJobs, kennyEvents, kennyLatestRun } = network(res);
   try {
-    kennyProofCache.clear();
+    await kennyProofCache.clear();
     ongoingKennyRequests.clear();
-    kennyJobs.clear();
+    await kennyInFlight.clear();
+    await kennyJobs.clear();
+    await kennyEvents.clear();
+    await kennyLatestRun.clear();
+    await reorgEvents.clear();
     
     console.log(`🗑️ [CACHE] Cleared all Kenny caches`);
     
@@ -1507,9 +2014,49 @@ app.delete('/api/proof-kenny-cache-all', async (req, res) => {
   }
 });
 
+// Selects the network for the per-network routes; a refused network answers 503
+function useNetwork(net: Network): express.RequestHandler {
+  return (req, res, next) => {
+    if (net.unavailable) {
+      return res.status(503).json({ error: net.unavailable, network: net.name });
+    }
+    res.locals.network = net;
+    next();
+  };
+}
+
+// Each configured network under /<name>, and the first one unprefixed as well
+for (const net of networks) {
+  if (net.prefix) {
+    app.use(`/${net.prefix}`, useNetwork(net), api);
+  }
+}
+app.use(useNetwork(defaultNetwork), api);
+
+// Detects the node's chain and starts the background watchers; a node on the wrong chain
+// is logged and retried, since it may be reconfigured without restarting this service
+function startNetwork(net: Network) {
+  detectNetwork(net).then(() => {
+    net.reorgWatcher.start();
+    net.subscriptions.start();
+    net.deposits.start();
+  }, error => {
+    console.error(`❌ [NETWORK] ${net.name}: ${error instanceof Error ? error.message : error}; retrying in 30s`);
+    setTimeout(() => startNetwork(net), 30000);
+  });
+}
+
 // Start the server
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
   console.log(`Bitcoin proof service running on port ${PORT}`);
-  console.log(`RPC host: ${process.env.RPC_HOST || 'localhost'}`);
-});
\ No newline at end of file
+  for (const net of networks) {
+    console.log(`🌐 [NETWORK] ${net.name}${net.prefix ? ` at /${net.prefix}` : ''}${net === defaultNetwork ? ' (default)' : ''}: RPC ${net.rpc.config.url}`);
+  }
+  access.registry.count().then(count => {
+    if (count === 0) {
+      console.warn('⚠️ [AUTH] No API keys configured: set API_KEY or API_KEYS_FILE, every request will be rejected');
+    }
+  }, error => console.error('❌ [AUTH] Could not count API keys:', error));
+  networks.forEach(startNetwork);
+});
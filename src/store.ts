@@ -0,0 +1,595 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+
+export interface EntryOptions {
+  // Entry expires this long after it was last written
+  ttlMs?: number;
+  // Oldest entries of the namespace are evicted beyond this many
+  maxEntries?: number;
+}
+
+export interface CounterState {
+  count: number;
+  resetAt: number;
+}
+
+// Namespaced key/value state shared by the routes: proof cache, jobs, rate-limit counters
+export interface StateStore {
+  readonly kind: StateStoreKind;
+  get<T>(namespace: string, key: string): Promise<T | undefined>;
+  // Several keys in one round-trip, in the order asked for
+  getMany<T>(namespace: string, keys: string[]): Promise<(T | undefined)[]>;
+  set<T>(namespace: string, key: string, value: T, options?: EntryOptions): Promise<void>;
+  // Writes only when the key is missing, returns whether it did (cross-worker locks)
+  setIfAbsent<T>(namespace: string, key: string, value: T, options?: EntryOptions): Promise<boolean>;
+  delete(namespace: string, key: string): Promise<void>;
+  clear(namespace: string): Promise<void>;
+  // Live keys of the namespace, in no particular order
+  keys(namespace: string): Promise<string[]>;
+  // Atomically increments a counter; its window starts with the first increment
+  increment(namespace: string, key: string, windowMs: number): Promise<CounterState>;
+  close(): Promise<void>;
+}
+
+export type StateStoreKind = 'memory' | 'file' | 'redis';
+
+export interface StateStoreConfig {
+  kind: StateStoreKind;
+  filePath: string;
+  redisUrl: string;
+  keyPrefix: string;
+}
+
+export function getStateStoreConfig(): StateStoreConfig {
+  const kind = (process.env.STATE_STORE || 'memory') as StateStoreKind;
+  if (!['memory', 'file', 'redis'].includes(kind)) {
+    throw new Error(`Unknown STATE_STORE "${kind}", expected memory, file or redis`);
+  }
+  return {
+    kind,
+    filePath: process.env.STATE_FILE || './data/state.jsonl',
+    redisUrl: process.env.REDIS_URL || 'redis://127.0.0.1:6379',
+    keyPrefix: process.env.STATE_KEY_PREFIX || 'clarity-service'
+  };
+}
+
+export function createStateStore(config: StateStoreConfig): StateStore {
+  switch (config.kind) {
+    case 'file':
+      return new FileStateStore(config.filePath);
+    case 'redis':
+      return new RedisStateStore(config.redisUrl, config.keyPrefix);
+    default:
+      return new MemoryStateStore();
+  }
+}
+
+// Typed view of one namespace with fixed entry options
+export class StateMap<T> {
+  constructor(
+    private readonly store: StateStore,
+    readonly namespace: string,
+    private readonly options: EntryOptions = {}
+  ) {}
+
+  get(key: string): Promise<T | undefined> {
+    return this.store.get<T>(this.namespace, key);
+  }
+
+  getMany(keys: string[]): Promise<(T | undefined)[]> {
+    return this.store.getMany<T>(this.namespace, keys);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.get(key)) !== undefined;
+  }
+
+  set(key: string, value: T): Promise<void> {
+    return this.store.set(this.namespace, key, value, this.options);
+  }
+
+  setIfAbsent(key: string, value: T): Promise<boolean> {
+    return this.store.setIfAbsent(this.namespace, key, value, this.options);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.store.delete(this.namespace, key);
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear(this.namespace);
+  }
+
+  keys(): Promise<string[]> {
+    return this.store.keys(this.namespace);
+  }
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+const expired = (entry: MemoryEntry, now = Date.now()) => entry.expiresAt !== undefined && entry.expiresAt <= now;
+
+export class MemoryStateStore implements StateStore {
+  readonly kind: StateStoreKind = 'memory';
+  // Map iteration order is write order, which makes the first entry the eviction candidate
+  protected readonly namespaces = new Map<string, Map<string, MemoryEntry>>();
+
+  protected entries(namespace: string): Map<string, MemoryEntry> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+    return entries;
+  }
+
+  protected read(namespace: string, key: string): MemoryEntry | undefined {
+    const entries = this.entries(namespace);
+    const entry = entries.get(key);
+    if (entry && expired(entry)) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  // Returns the keys evicted to respect maxEntries
+  protected write(namespace: string, key: string, entry: MemoryEntry, maxEntries?: number): string[] {
+    const entries = this.entries(namespace);
+    entries.delete(key);
+    entries.set(key, entry);
+
+    const evicted: string[] = [];
+    if (maxEntries !== undefined && entries.size > maxEntries) {
+      const now = Date.now();
+      for (const [candidate, item] of entries) {
+        if (expired(item, now)) {
+          entries.delete(candidate);
+          evicted.push(candidate);
+        }
+      }
+      for (const candidate of entries.keys()) {
+        if (entries.size <= maxEntries) {
+          break;
+        }
+        entries.delete(candidate);
+        evicted.push(candidate);
+      }
+    }
+    return evicted;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    return this.read(namespace, key)?.value as T | undefined;
+  }
+
+  async getMany<T>(namespace: string, keys: string[]): Promise<(T | undefined)[]> {
+    return keys.map(key => this.read(namespace, key)?.value as T | undefined);
+  }
+
+  async set<T>(namespace: string, key: string, value: T, options: EntryOptions = {}): Promise<void> {
+    this.write(namespace, key, { value, expiresAt: options.ttlMs ? Date.now() + options.ttlMs : undefined }, options.maxEntries);
+  }
+
+  async setIfAbsent<T>(namespace: string, key: string, value: T, options: EntryOptions = {}): Promise<boolean> {
+    if (this.read(namespace, key)) {
+      return false;
+    }
+    await this.set(namespace, key, value, options);
+    return true;
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.entries(namespace).delete(key);
+  }
+
+  async clear(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+
+  async keys(namespace: string): Promise<string[]> {
+    const now = Date.now();
+    return [...this.entries(namespace)].filter(([, entry]) => !expired(entry, now)).map(([key]) => key);
+  }
+
+  async increment(namespace: string, key: string, windowMs: number): Promise<CounterState> {
+    const current = this.read(namespace, key);
+    const state: CounterState = current
+      ? { count: (current.value as number) + 1, resetAt: current.expiresAt! }
+      : { count: 1, resetAt: Date.now() + windowMs };
+    this.write(namespace, key, { value: state.count, expiresAt: state.resetAt });
+    return state;
+  }
+
+  async close(): Promise<void> {}
+}
+
+type LogRecord =
+  | { op: 'set'; ns: string; key: string; value: unknown; expiresAt?: number }
+  | { op: 'delete'; ns: string; key: string }
+  | { op: 'clear'; ns: string };
+
+// Memory store backed by an append-only JSON-lines log, replayed on startup and
+// compacted once it holds twice as many records as live entries. Survives restarts,
+// but every process keeps its own view: use the Redis store for several workers.
+export class FileStateStore extends MemoryStateStore {
+  readonly kind: StateStoreKind = 'file';
+  private records = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.replay();
+  }
+
+  private replay() {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(Boolean);
+    for (const line of lines) {
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A torn final line from a crash mid-append
+        console.error(`⚠️ [STATE] Skipping unreadable record in ${this.filePath}`);
+        continue;
+      }
+      if (record.op === 'set') {
+        this.entries(record.ns).delete(record.key);
+        this.entries(record.ns).set(record.key, { value: record.value, expiresAt: record.expiresAt });
+      } else if (record.op === 'delete') {
+        this.entries(record.ns).delete(record.key);
+      } else {
+        this.namespaces.delete(record.ns);
+      }
+    }
+    this.records = lines.length;
+    console.log(`✅ [STATE] Replayed ${lines.length} records from ${this.filePath}`);
+  }
+
+  private liveEntries(): number {
+    let count = 0;
+    for (const entries of this.namespaces.values()) {
+      count += entries.size;
+    }
+    return count;
+  }
+
+  private append(records: LogRecord[]): Promise<void> {
+    this.records += records.length;
+    const data = records.map(record => JSON.stringify(record) + '\n').join('');
+    this.writes = this.writes
+      .then(() => fs.promises.appendFile(this.filePath, data))
+      .then(() => (this.records > 1000 && this.records > 2 * this.liveEntries() ? this.compact() : undefined))
+      .catch(error => console.error(`❌ [STATE] Failed to write ${this.filePath}:`, error));
+    return this.writes;
+  }
+
+  private async compact() {
+    const now = Date.now();
+    const lines: string[] = [];
+    for (const [ns, entries] of this.namespaces) {
+      for (const [key, entry] of entries) {
+        if (!expired(entry, now)) {
+          lines.push(JSON.stringify({ op: 'set', ns, key, value: entry.value, expiresAt: entry.expiresAt }));
+        }
+      }
+    }
+    const tmp = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmp, lines.map(line => line + '\n').join(''));
+    await fs.promises.rename(tmp, this.filePath);
+    this.records = lines.length;
+    console.log(`🗜️ [STATE] Compacted ${this.filePath} to ${lines.length} records`);
+  }
+
+  async set<T>(namespace: string, key: string, value: T, options: EntryOptions = {}): Promise<void> {
+    const expiresAt = options.ttlMs ? Date.now() + options.ttlMs : undefined;
+    const evicted = this.write(namespace, key, { value, expiresAt }, options.maxEntries);
+    await this.append([
+      { op: 'set', ns: namespace, key, value, expiresAt },
+      ...evicted.map(item => ({ op: 'delete' as const, ns: namespace, key: item }))
+    ]);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await super.delete(namespace, key);
+    await this.append([{ op: 'delete', ns: namespace, key }]);
+  }
+
+  async clear(namespace: string): Promise<void> {
+    await super.clear(namespace);
+    await this.append([{ op: 'clear', ns: namespace }]);
+  }
+
+  async increment(namespace: string, key: string, windowMs: number): Promise<CounterState> {
+    const state = await super.increment(namespace, key, windowMs);
+    await this.append([{ op: 'set', ns: namespace, key, value: state.count, expiresAt: state.resetAt }]);
+    return state;
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+  }
+}
+
+type RespValue = string | number | null | RespValue[] | Error;
+
+// Parses one RESP reply from the front of the buffer, or returns undefined if it is incomplete
+function parseResp(buffer: Buffer, offset = 0): { value: RespValue; end: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd < 0) {
+    return undefined;
+  }
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, end: next };
+    case '-':
+      return { value: new Error(line), end: next };
+    case ':':
+      return { value: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, end: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { value: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, end: next };
+      }
+      const items: RespValue[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseResp(buffer, end);
+        if (!item) {
+          return undefined;
+        }
+        items.push(item.value);
+        end = item.end;
+      }
+      return { value: items, end };
+    }
+    default:
+      throw new Error(`Unexpected RESP type "${type}"`);
+  }
+}
+
+function encodeCommand(args: (string | number)[]): string {
+  return `*${args.length}\r\n` + args.map(arg => {
+    const value = String(arg);
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }).join('');
+}
+
+// Speaks the Redis protocol directly (Redis, Valkey, KeyDB, ...), so every worker
+// shares one view of the cache, jobs and rate limits. Size caps use a sorted-set
+// index per namespace, scored by write time.
+export class RedisStateStore implements StateStore {
+  readonly kind: StateStoreKind = 'redis';
+  private socket?: net.Socket;
+  private connecting?: Promise<net.Socket>;
+  private buffer = Buffer.alloc(0);
+  private pending: { resolve: (value: RespValue) => void; reject: (error: Error) => void }[] = [];
+  private readonly url: URL;
+
+  constructor(url: string, private readonly prefix: string) {
+    this.url = new URL(url);
+  }
+
+  private key(namespace: string, key: string) {
+    return `${this.prefix}:${namespace}:${key}`;
+  }
+
+  private indexKey(namespace: string) {
+    return `${this.prefix}:${namespace}:__index`;
+  }
+
+  private setupCommands(): (string | number)[][] {
+    const password = decodeURIComponent(this.url.password);
+    const username = decodeURIComponent(this.url.username);
+    const db = this.url.pathname.slice(1);
+    const setup: (string | number)[][] = [];
+    if (password) {
+      setup.push(username ? ['AUTH', username, password] : ['AUTH', password]);
+    }
+    if (db) {
+      setup.push(['SELECT', db]);
+    }
+    return setup;
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.url.hostname, port: Number(this.url.port || 6379) });
+      socket.once('connect', () => {
+        this.buffer = Buffer.alloc(0);
+        // AUTH / SELECT are written before the socket is handed to anyone else
+        const ready = this.send(socket, this.setupCommands());
+        this.socket = socket;
+        ready.then(() => resolve(socket), reject);
+      });
+      socket.on('data', (data: Buffer) => this.onData(data));
+      socket.on('error', error => {
+        console.error('❌ [STATE] Redis connection error:', error.message);
+        reject(error);
+      });
+      socket.on('close', () => {
+        const pending = this.pending;
+        this.pending = [];
+        this.socket = undefined;
+        pending.forEach(request => request.reject(new Error('Redis connection closed')));
+      });
+    }).finally(() => {
+      this.connecting = undefined;
+    });
+
+    return this.connecting;
+  }
+
+  private onData(data: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    let parsed;
+    while (this.pending.length > 0 && (parsed = parseResp(this.buffer))) {
+      this.buffer = this.buffer.subarray(parsed.end);
+      const request = this.pending.shift()!;
+      if (parsed.value instanceof Error) {
+        request.reject(parsed.value);
+      } else {
+        request.resolve(parsed.value);
+      }
+    }
+  }
+
+  private send(socket: net.Socket, commands: (string | number)[][]): Promise<RespValue[]> {
+    if (commands.length === 0) {
+      return Promise.resolve([]);
+    }
+    const replies = commands.map(() => new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+    }));
+    socket.write(commands.map(encodeCommand).join(''));
+    return Promise.all(replies);
+  }
+
+  // Sends the commands as one pipeline and returns their replies in order
+  private async pipeline(commands: (string | number)[][]): Promise<RespValue[]> {
+    return this.send(await this.connect(), commands);
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const [value] = await this.pipeline([['GET', this.key(namespace, key)]]);
+    return typeof value === 'string' ? JSON.parse(value) as T : undefined;
+  }
+
+  // MGET in chunks, pipelined
+  async getMany<T>(namespace: string, keys: string[]): Promise<(T | undefined)[]> {
+    const chunks: (string | number)[][] = [];
+    for (let i = 0; i < keys.length; i += 500) {
+      chunks.push(['MGET', ...keys.slice(i, i + 500).map(key => this.key(namespace, key))]);
+    }
+    const replies = await this.pipeline(chunks);
+    return replies.flatMap(reply => (reply as (string | null)[]).map(value => typeof value === 'string' ? JSON.parse(value) as T : undefined));
+  }
+
+  private setCommand(namespace: string, key: string, value: unknown, options: EntryOptions, onlyIfAbsent: boolean) {
+    const command: (string | number)[] = ['SET', this.key(namespace, key), JSON.stringify(value)];
+    if (options.ttlMs) {
+      command.push('PX', options.ttlMs);
+    }
+    if (onlyIfAbsent) {
+      command.push('NX');
+    }
+    return command;
+  }
+
+  // A namespace's entries share one TTL, so scoring the index by expiry keeps write order;
+  // members whose key Redis already expired are pruned before counting
+  private async enforceCap(namespace: string, key: string, options: EntryOptions) {
+    const { maxEntries, ttlMs } = options;
+    if (maxEntries === undefined) {
+      return;
+    }
+    const index = this.indexKey(namespace);
+    const now = Date.now();
+    const commands: (string | number)[][] = [['ZADD', index, now + (ttlMs ?? 0), key]];
+    if (ttlMs) {
+      commands.push(['ZREMRANGEBYSCORE', index, '-inf', now]);
+    }
+    commands.push(['ZCARD', index]);
+    const replies = await this.pipeline(commands);
+    const size = replies[replies.length - 1];
+    if ((size as number) > maxEntries) {
+      const [popped] = await this.pipeline([['ZPOPMIN', index, (size as number) - maxEntries]]);
+      // ZPOPMIN answers [member, score, member, score, ...]
+      const keys = (popped as string[]).filter((_, position) => position % 2 === 0);
+      if (keys.length > 0) {
+        await this.pipeline([['DEL', ...keys.map(item => this.key(namespace, item))]]);
+      }
+    }
+  }
+
+  async set<T>(namespace: string, key: string, value: T, options: EntryOptions = {}): Promise<void> {
+    await this.pipeline([this.setCommand(namespace, key, value, options, false)]);
+    await this.enforceCap(namespace, key, options);
+  }
+
+  async setIfAbsent<T>(namespace: string, key: string, value: T, options: EntryOptions = {}): Promise<boolean> {
+    const [reply] = await this.pipeline([this.setCommand(namespace, key, value, options, true)]);
+    if (reply !== 'OK') {
+      return false;
+    }
+    await this.enforceCap(namespace, key, options);
+    return true;
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await this.pipeline([['DEL', this.key(namespace, key)], ['ZREM', this.indexKey(namespace), key]]);
+  }
+
+  private async scan(namespace: string): Promise<string[]> {
+    const found: string[] = [];
+    let cursor = '0';
+    do {
+      const [reply] = await this.pipeline([['SCAN', cursor, 'MATCH', `${this.prefix}:${namespace}:*`, 'COUNT', 500]]);
+      const [next, keys] = reply as [string, string[]];
+      found.push(...keys);
+      cursor = next;
+    } while (cursor !== '0');
+    // SCAN may return a key more than once
+    return [...new Set(found)];
+  }
+
+  async clear(namespace: string): Promise<void> {
+    const keys = await this.scan(namespace);
+    for (let i = 0; i < keys.length; i += 500) {
+      await this.pipeline([['DEL', ...keys.slice(i, i + 500)]]);
+    }
+  }
+
+  async keys(namespace: string): Promise<string[]> {
+    const index = this.indexKey(namespace);
+    const start = `${this.prefix}:${namespace}:`.length;
+    return (await this.scan(namespace)).filter(key => key !== index).map(key => key.slice(start));
+  }
+
+  async increment(namespace: string, key: string, windowMs: number): Promise<CounterState> {
+    const redisKey = this.key(namespace, key);
+    // The NX set starts the window; INCR keeps the existing expiry
+    const [, count, ttl] = await this.pipeline([
+      ['SET', redisKey, 0, 'PX', windowMs, 'NX'],
+      ['INCR', redisKey],
+      ['PTTL', redisKey]
+    ]);
+    return { count: count as number, resetAt: Date.now() + Math.max(ttl as number, 0) };
+  }
+
+  async close(): Promise<void> {
+    if (this.socket && !this.socket.destroyed) {
+      await this.pipeline([['QUIT']]).catch(() => undefined);
+      this.socket.destroy();
+    }
+  }
+}
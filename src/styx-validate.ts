@@ -0,0 +1,173 @@
+import { CLARITY_TX_LIMITS } from './clarity-args.js';
+import { PsbtInput, isPsbt, parsePsbt } from './psbt.js';
+import { DepositProblemCode, DepositRules, ParsedDeposit, parseDeposit, parsedTransactionOutputs } from './styx.js';
+import { ParsedTransaction, compactSize, computeTxid, parseTransaction, serializeTransaction, varBytes } from './tx.js';
+
+export type RuleStatus = 'pass' | 'fail' | 'unknown';
+
+export interface RuleResult {
+  rule: string;
+  status: RuleStatus;
+  message: string;
+  // Problem code when a Styx deposit rule fails
+  code?: DepositProblemCode;
+}
+
+export interface DepositValidation {
+  valid: boolean;
+  format: 'tx' | 'psbt';
+  // Final for inputs that sign in the witness; legacy inputs change it when signed
+  txid: string;
+  rules: RuleResult[];
+  deposit: Omit<ParsedDeposit, 'valid' | 'problems' | 'txid'>;
+  // Sizes once signed, where the spent outputs tell how large the signatures will be
+  estimated: { txBytes: number | null; witnessDataBytes: number | null };
+}
+
+// Thrown for input that is neither a transaction nor a PSBT
+export class DepositInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DepositInputError';
+  }
+}
+
+// scriptSig and witness of an input once signed, by the type of output it spends;
+// worst-case signature sizes. Undefined when the type does not tell.
+interface SignedInputSize {
+  scriptSigBytes: number;
+  // Serialized witness stack including its item count, 1 for no witness
+  witnessBytes: number;
+}
+
+const P2WPKH_WITNESS = 1 + 1 + 72 + 1 + 33;
+
+function signedInputSize(input: PsbtInput | undefined): SignedInputSize | undefined {
+  if (input?.finalScriptSig || input?.finalScriptWitness) {
+    const witness = input.finalScriptWitness ?? [];
+    return {
+      scriptSigBytes: input.finalScriptSig?.length ?? 0,
+      witnessBytes: Buffer.concat([compactSize(witness.length), ...witness.map(varBytes)]).length
+    };
+  }
+  const script = input?.prevout?.scriptPubKey;
+  if (!script) {
+    return undefined;
+  }
+  const hex = script.toString('hex');
+  if (/^0014[0-9a-f]{40}$/.test(hex)) {
+    return { scriptSigBytes: 0, witnessBytes: P2WPKH_WITNESS };
+  }
+  if (/^5120[0-9a-f]{64}$/.test(hex)) {
+    // Key path: one Schnorr signature, 65 bytes with a sighash byte
+    return { scriptSigBytes: 0, witnessBytes: 1 + 1 + 65 };
+  }
+  if (/^76a914[0-9a-f]{40}88ac$/.test(hex)) {
+    return { scriptSigBytes: 1 + 72 + 1 + 33, witnessBytes: 1 };
+  }
+  // P2SH is assumed to wrap P2WPKH, the only P2SH form wallets commonly deposit from
+  if (/^a914[0-9a-f]{40}87$/.test(hex)) {
+    return { scriptSigBytes: 1 + 22, witnessBytes: P2WPKH_WITNESS };
+  }
+  return undefined;
+}
+
+function limitRule(rule: string, actual: number | null, limit: number, what: string): RuleResult {
+  if (actual === null) {
+    return { rule, status: 'unknown', message: `${what} cannot be estimated without the spent outputs (use a PSBT with witness_utxo)` };
+  }
+  return actual <= limit
+    ? { rule, status: 'pass', message: `${what} is ${actual}, the limit is ${limit}` }
+    : { rule, status: 'fail', message: `${what} is ${actual}, the Clarity parser accepts at most ${limit}` };
+}
+
+// Clarity parse-tx / parse-wtx limits, on the transaction as it will be once signed
+function structuralRules(tx: ParsedTransaction, inputs: PsbtInput[]): { rules: RuleResult[]; estimated: DepositValidation['estimated'] } {
+  const rules: RuleResult[] = [
+    limitRule('input_count', tx.inputs.length, CLARITY_TX_LIMITS.inputs, 'Input count'),
+    limitRule('output_count', tx.outputs.length, CLARITY_TX_LIMITS.outputs, 'Output count'),
+    limitRule('script_pubkey_size', Math.max(0, ...tx.outputs.map(output => output.scriptPubKey.length)), CLARITY_TX_LIMITS.scriptBytes, 'Largest output script (bytes)')
+  ];
+
+  const signed = tx.inputs.map((_, index) => signedInputSize(inputs[index]));
+  const known = signed.every(size => size !== undefined);
+  const scriptSigs = signed.map((size, index) => size?.scriptSigBytes ?? tx.inputs[index].scriptSig.length);
+  rules.push(limitRule('script_sig_size', known ? Math.max(0, ...scriptSigs) : null, CLARITY_TX_LIMITS.scriptBytes, 'Largest signed scriptSig (bytes)'));
+
+  let txBytes: number | null = null;
+  let witnessDataBytes: number | null = null;
+  if (known) {
+    const stripped = serializeTransaction(tx, { witness: false }).length
+      + scriptSigs.reduce((sum, length, index) => sum + varBytes(Buffer.alloc(length)).length - varBytes(tx.inputs[index].scriptSig).length, 0);
+    const hasWitness = signed.some(size => size!.witnessBytes > 1);
+    witnessDataBytes = hasWitness ? signed.reduce((sum, size) => sum + size!.witnessBytes, 0) : 0;
+    // Marker and flag bytes come with the witness
+    txBytes = stripped + (hasWitness ? 2 + witnessDataBytes : 0);
+  }
+  rules.push(limitRule('signed_tx_size', txBytes, CLARITY_TX_LIMITS.txBytes, 'Signed transaction size (bytes)'));
+  rules.push(limitRule('witness_data_size', witnessDataBytes, CLARITY_TX_LIMITS.witnessDataBytes, 'Witness data size (bytes)'));
+
+  return { rules, estimated: { txBytes, witnessDataBytes } };
+}
+
+// The Styx deposit rules as pass/fail/unknown, with later rules unknown when an earlier one
+// they depend on failed
+function depositRuleResults(deposit: ParsedDeposit): RuleResult[] {
+  const problem = (code: DepositProblemCode) => deposit.problems.find(item => item.code === code);
+  const result = (rule: string, code: DepositProblemCode, passMessage: string, unknownMessage?: string): RuleResult => {
+    const failed = problem(code);
+    if (failed) {
+      return { rule, status: 'fail', message: failed.message, code };
+    }
+    return unknownMessage !== undefined
+      ? { rule, status: 'unknown', message: unknownMessage }
+      : { rule, status: 'pass', message: passMessage };
+  };
+
+  const noPool = problem('wrong_pool_address') !== undefined;
+  const noMemo = problem('missing_op_return') !== undefined;
+  return [
+    result('pool_output', 'wrong_pool_address', `Pays the pool in ${deposit.deposit.outputs.length} output(s)`),
+    result('minimum_amount', 'amount_below_minimum', `Deposits ${deposit.deposit.amount} sats`, noPool ? 'No pool output to check' : undefined),
+    result('op_return', 'missing_op_return', `OP_RETURN in output ${deposit.memo?.vout}`),
+    result('memo', 'memo_malformed', `Memo is the principal ${deposit.recipient?.principal}`, noMemo ? 'No OP_RETURN to check' : undefined),
+    result('recipient_network', 'recipient_wrong_network', `Recipient is a ${deposit.recipient?.network} principal`, deposit.recipient ? undefined : 'No recipient to check')
+  ];
+}
+
+// Accepts raw transaction hex, PSBT hex or PSBT base64
+function decodeInput(input: string): { format: 'tx' | 'psbt'; tx: ParsedTransaction; inputs: PsbtInput[] } {
+  const trimmed = input.trim();
+  const bytes = /^[0-9a-fA-F]+$/.test(trimmed) && trimmed.length % 2 === 0
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+
+  try {
+    if (isPsbt(bytes)) {
+      const psbt = parsePsbt(bytes);
+      return { format: 'psbt', ...psbt };
+    }
+    return { format: 'tx', tx: parseTransaction(bytes.toString('hex')), inputs: [] };
+  } catch (error) {
+    throw new DepositInputError(`Could not parse the transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Checks an unsigned deposit locally, without the node, so a deposit that could never be
+// proven on Stacks is caught before the user signs and pays for it
+export function validateUnsignedDeposit(input: string, rules: DepositRules): DepositValidation {
+  const { format, tx, inputs } = decodeInput(input);
+  const txid = computeTxid(tx);
+  const parsed = parseDeposit(txid, parsedTransactionOutputs(tx), rules);
+  const structural = structuralRules(tx, inputs);
+  const results = [...depositRuleResults(parsed), ...structural.rules];
+
+  return {
+    valid: results.every(result => result.status !== 'fail'),
+    format,
+    txid,
+    rules: results,
+    deposit: { deposit: parsed.deposit, memo: parsed.memo, recipient: parsed.recipient },
+    estimated: structural.estimated
+  };
+}
@@ -0,0 +1,201 @@
+import { ClarityType, ClarityValue, deserializeCV, serializeCV } from '@stacks/transactions';
+import { RawTransaction } from './rpc.js';
+import { BlockDepth, depthShortfall } from './confirmations.js';
+import { NetworkParams, outputScript, stacksNetworkFor } from './network.js';
+import { ParsedTransaction } from './tx.js';
+
+export interface StyxConfig {
+  // Bitcoin addresses of the Styx pool; deposits must pay one of them
+  poolAddresses: string[];
+  minDepositSats: number;
+}
+
+// prefix selects <NAME>_STYX_* for one of several networks (see network.ts)
+export function getStyxConfig(prefix = ''): StyxConfig {
+  const env = (name: string) => process.env[`${prefix}${name}`];
+  return {
+    poolAddresses: (env('STYX_POOL_ADDRESSES') || '').split(',').map(address => address.trim()).filter(Boolean),
+    minDepositSats: Number(env('STYX_MIN_DEPOSIT_SATS') || 10000)
+  };
+}
+
+// What a deposit is checked against on one network
+export interface DepositRules {
+  // Pool scriptPubKey hex to pool address
+  pool: Map<string, string>;
+  minDepositSats: number;
+  // The Stacks network recipients must be on
+  stacksNetwork: 'mainnet' | 'testnet';
+}
+
+// Pool addresses that are not valid on this network are left out, and logged
+export function depositRules(config: StyxConfig, params: NetworkParams): DepositRules {
+  const pool = new Map<string, string>();
+  for (const address of config.poolAddresses) {
+    const script = outputScript(address, params);
+    if (script) {
+      pool.set(script.toString('hex'), address);
+    } else {
+      console.error(`❌ [STYX] Pool address ${address} is not a valid ${params.name} address, ignoring it`);
+    }
+  }
+  return { pool, minDepositSats: config.minDepositSats, stacksNetwork: stacksNetworkFor(params) };
+}
+
+export interface DepositOutput {
+  n: number;
+  // sats
+  value: number;
+  scriptHex: string;
+}
+
+export function rawTransactionOutputs(tx: RawTransaction): DepositOutput[] {
+  return tx.vout.map(output => ({ n: output.n, value: Math.round(output.value * 1e8), scriptHex: output.scriptPubKey.hex }));
+}
+
+export function parsedTransactionOutputs(tx: ParsedTransaction): DepositOutput[] {
+  return tx.outputs.map((output, n) => ({ n, value: Number(output.value), scriptHex: output.scriptPubKey.toString('hex') }));
+}
+
+export type DepositProblemCode =
+  | 'missing_op_return'
+  | 'memo_malformed'
+  | 'recipient_wrong_network'
+  | 'wrong_pool_address'
+  | 'amount_below_minimum';
+
+export interface DepositProblem {
+  code: DepositProblemCode;
+  message: string;
+}
+
+export interface StyxRecipient {
+  // c32check-encoded, "SP..." or "SP....contract-name"
+  principal: string;
+  type: 'standard' | 'contract';
+  network: 'mainnet' | 'testnet';
+}
+
+export interface ParsedDeposit {
+  txid: string;
+  valid: boolean;
+  // Outputs paying the pool and their total, in sats
+  deposit: {
+    outputs: Array<{ vout: number; address: string; amount: number }>;
+    amount: number;
+  };
+  memo: { vout: number; hex: string } | null;
+  recipient: StyxRecipient | null;
+  problems: DepositProblem[];
+}
+
+export type ProofReadiness =
+  | { state: 'unconfirmed'; confirmations: 0; required: number }
+  | { state: 'not_in_main_chain' | 'pending_confirmations' | 'ready'; confirmations: number; required: number; block_height: number; block_hash: string; ready_at_height?: number };
+
+// The data pushed by an OP_RETURN script, if it is one push after OP_RETURN
+export function opReturnData(scriptHex: string): Buffer | undefined {
+  const script = Buffer.from(scriptHex, 'hex');
+  if (script[0] !== 0x6a || script.length < 2) {
+    return undefined;
+  }
+  const opcode = script[1];
+  let start: number;
+  let length: number;
+  if (opcode >= 0x01 && opcode <= 0x4b) {
+    start = 2;
+    length = opcode;
+  } else if (opcode === 0x4c && script.length >= 3) {
+    start = 3;
+    length = script[2];
+  } else if (opcode === 0x4d && script.length >= 4) {
+    start = 4;
+    length = script.readUInt16LE(2);
+  } else {
+    return undefined;
+  }
+  return start + length === script.length ? script.subarray(start, start + length) : undefined;
+}
+
+// The memo is the recipient as a consensus-serialized Clarity principal, which is what
+// the deposit contract reads back with from-consensus-buff?; nothing may follow it
+export function decodeRecipient(memo: Buffer): StyxRecipient | string {
+  let value: ClarityValue;
+  try {
+    value = deserializeCV(memo);
+  } catch (error) {
+    return `Memo is not a serialized Clarity value: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+  if (value.type !== ClarityType.PrincipalStandard && value.type !== ClarityType.PrincipalContract) {
+    return `Memo holds a Clarity ${value.type}, expected a principal`;
+  }
+  if (serializeCV(value) !== memo.toString('hex')) {
+    return 'Memo has trailing bytes after the principal';
+  }
+  return {
+    principal: value.value,
+    type: value.type === ClarityType.PrincipalStandard ? 'standard' : 'contract',
+    // SP/SM are mainnet versions, ST/SN testnet
+    network: /^S[PM]/.test(value.value) ? 'mainnet' : 'testnet'
+  };
+}
+
+// Checks a transaction's outputs against the Styx deposit rules; used for mined,
+// mempool and not yet signed transactions alike
+export function parseDeposit(txid: string, txOutputs: DepositOutput[], rules: DepositRules): ParsedDeposit {
+  const problems: DepositProblem[] = [];
+
+  const outputs = txOutputs
+    .filter(output => rules.pool.has(output.scriptHex))
+    .map(output => ({ vout: output.n, address: rules.pool.get(output.scriptHex)!, amount: output.value }));
+  const amount = outputs.reduce((sum, output) => sum + output.amount, 0);
+
+  if (outputs.length === 0) {
+    problems.push({ code: 'wrong_pool_address', message: `No output pays the pool address (${[...rules.pool.values()].join(', ')})` });
+  } else if (amount < rules.minDepositSats) {
+    problems.push({ code: 'amount_below_minimum', message: `Deposit of ${amount} sats is below the minimum of ${rules.minDepositSats} sats` });
+  }
+
+  const opReturn = txOutputs.find(output => output.scriptHex.startsWith('6a'));
+  let memo: ParsedDeposit['memo'] = null;
+  let recipient: StyxRecipient | null = null;
+  if (!opReturn) {
+    problems.push({ code: 'missing_op_return', message: 'No OP_RETURN output carrying the Stacks recipient' });
+  } else {
+    const data = opReturnData(opReturn.scriptHex);
+    memo = { vout: opReturn.n, hex: data?.toString('hex') ?? opReturn.scriptHex.slice(2) };
+    const decoded = data ? decodeRecipient(data) : 'OP_RETURN script is not a single data push';
+    if (typeof decoded === 'string') {
+      problems.push({ code: 'memo_malformed', message: decoded });
+    } else {
+      recipient = decoded;
+      if (decoded.network !== rules.stacksNetwork) {
+        problems.push({ code: 'recipient_wrong_network', message: `Recipient ${decoded.principal} is a ${decoded.network} principal, deposits here need a ${rules.stacksNetwork} one` });
+      }
+    }
+  }
+
+  return {
+    txid,
+    valid: problems.length === 0,
+    deposit: { outputs, amount },
+    memo,
+    recipient,
+    problems
+  };
+}
+
+export function proofReadiness(txid: string, depth: BlockDepth | undefined, required: number): ProofReadiness {
+  if (!depth) {
+    return { state: 'unconfirmed', confirmations: 0, required };
+  }
+  const shortfall = depthShortfall(txid, depth, required);
+  return {
+    state: !shortfall ? 'ready' : depth.confirmations === 0 ? 'not_in_main_chain' : 'pending_confirmations',
+    confirmations: depth.confirmations,
+    required,
+    block_height: depth.blockHeight,
+    block_hash: depth.blockHash,
+    ready_at_height: shortfall?.body.ready_at_height
+  };
+}
@@ -0,0 +1,274 @@
+import { internalToTxid, sha256d, txidToInternal } from './merkle.js';
+import type { RawTransaction } from './rpc.js';
+
+export interface TxInput {
+  // Previous txid in internal byte order, as serialized
+  hash: Buffer;
+  index: number;
+  scriptSig: Buffer;
+  sequence: number;
+  witness: Buffer[];
+}
+
+export interface TxOutput {
+  value: bigint;
+  scriptPubKey: Buffer;
+}
+
+export interface ParsedTransaction {
+  version: number;
+  inputs: TxInput[];
+  outputs: TxOutput[];
+  locktime: number;
+  segwit: boolean;
+}
+
+export class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  peek(ahead = 0): number {
+    return this.buffer[this.offset + ahead];
+  }
+
+  bytes(length: number): Buffer {
+    if (length > this.remaining) {
+      throw new Error(`Unexpected end of data: wanted ${length} bytes, ${this.remaining} left`);
+    }
+    const slice = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  uint8(): number {
+    return this.bytes(1).readUInt8(0);
+  }
+
+  uint32(): number {
+    return this.bytes(4).readUInt32LE(0);
+  }
+
+  int32(): number {
+    return this.bytes(4).readInt32LE(0);
+  }
+
+  uint64(): bigint {
+    return this.bytes(8).readBigUInt64LE(0);
+  }
+
+  compactSize(): number {
+    const first = this.uint8();
+    if (first < 0xfd) {
+      return first;
+    }
+    if (first === 0xfd) {
+      return this.bytes(2).readUInt16LE(0);
+    }
+    if (first === 0xfe) {
+      return this.uint32();
+    }
+    return Number(this.uint64());
+  }
+
+  varBytes(): Buffer {
+    return this.bytes(this.compactSize());
+  }
+}
+
+export function compactSize(value: number): Buffer {
+  if (value < 0xfd) {
+    return Buffer.from([value]);
+  }
+  if (value <= 0xffff) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = 0xfd;
+    buffer.writeUInt16LE(value, 1);
+    return buffer;
+  }
+  if (value <= 0xffffffff) {
+    const buffer = Buffer.alloc(5);
+    buffer[0] = 0xfe;
+    buffer.writeUInt32LE(value, 1);
+    return buffer;
+  }
+  const buffer = Buffer.alloc(9);
+  buffer[0] = 0xff;
+  buffer.writeBigUInt64LE(BigInt(value), 1);
+  return buffer;
+}
+
+export function varBytes(data: Buffer): Buffer {
+  return Buffer.concat([compactSize(data.length), data]);
+}
+
+export function uint32LE(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value >>> 0, 0);
+  return buffer;
+}
+
+export function uint64LE(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value, 0);
+  return buffer;
+}
+
+export function parseTransaction(hex: string): ParsedTransaction {
+  const buffer = Buffer.from(hex.replace(/^0x/, ''), 'hex');
+
+  // BIP144: a zero marker followed by a non-zero flag means witness data follows the outputs.
+  // As in Core, the witness form also needs at least one input after the flag; otherwise the
+  // zero is the input count of a transaction without inputs and the flag its output count.
+  if (buffer[4] === 0x00 && buffer[5] !== 0x00 && buffer[6] !== 0x00) {
+    try {
+      return readTransaction(buffer, true);
+    } catch (error) {
+      // A transaction without inputs can still look like one with a witness (decoderawtransaction tries both too)
+      try {
+        return readTransaction(buffer, false);
+      } catch {
+        throw error;
+      }
+    }
+  }
+  return readTransaction(buffer, false);
+}
+
+function readTransaction(buffer: Buffer, segwit: boolean): ParsedTransaction {
+  const reader = new ByteReader(buffer);
+  const version = reader.int32();
+  if (segwit) {
+    reader.bytes(2);
+  }
+
+  const inputs: TxInput[] = [];
+  const inputCount = reader.compactSize();
+  for (let i = 0; i < inputCount; i++) {
+    inputs.push({
+      hash: reader.bytes(32),
+      index: reader.uint32(),
+      scriptSig: reader.varBytes(),
+      sequence: reader.uint32(),
+      witness: []
+    });
+  }
+
+  const outputs: TxOutput[] = [];
+  const outputCount = reader.compactSize();
+  for (let i = 0; i < outputCount; i++) {
+    outputs.push({
+      value: reader.uint64(),
+      scriptPubKey: reader.varBytes()
+    });
+  }
+
+  if (segwit) {
+    for (const input of inputs) {
+      const itemCount = reader.compactSize();
+      for (let i = 0; i < itemCount; i++) {
+        input.witness.push(reader.varBytes());
+      }
+    }
+    if (!inputs.some(input => input.witness.length > 0)) {
+      throw new Error('Superfluous witness record');
+    }
+  }
+
+  const locktime = reader.uint32();
+  if (reader.remaining !== 0) {
+    throw new Error(`Transaction has ${reader.remaining} trailing bytes`);
+  }
+
+  return { version, inputs, outputs, locktime, segwit };
+}
+
+export function hasWitness(tx: ParsedTransaction): boolean {
+  return tx.inputs.some(input => input.witness.length > 0);
+}
+
+// Per-input witness stacks: item count, then each item with its CompactSize length
+export function serializeWitness(tx: ParsedTransaction): Buffer {
+  return Buffer.concat(tx.inputs.map(input =>
+    Buffer.concat([compactSize(input.witness.length), ...input.witness.map(varBytes)])
+  ));
+}
+
+export function serializeTransaction(tx: ParsedTransaction, options: { witness?: boolean } = {}): Buffer {
+  const withWitness = (options.witness ?? true) && hasWitness(tx);
+
+  // Versions are serialized as their 32 bits, whether parsed signed or reported unsigned by the node
+  const parts: Buffer[] = [uint32LE(tx.version)];
+  if (withWitness) {
+    parts.push(Buffer.from([0x00, 0x01]));
+  }
+
+  parts.push(compactSize(tx.inputs.length));
+  for (const input of tx.inputs) {
+    parts.push(input.hash, uint32LE(input.index), varBytes(input.scriptSig), uint32LE(input.sequence));
+  }
+
+  parts.push(compactSize(tx.outputs.length));
+  for (const output of tx.outputs) {
+    parts.push(uint64LE(output.value), varBytes(output.scriptPubKey));
+  }
+
+  if (withWitness) {
+    parts.push(serializeWitness(tx));
+  }
+
+  parts.push(uint32LE(tx.locktime));
+  return Buffer.concat(parts);
+}
+
+export function strippedHex(tx: ParsedTransaction): string {
+  return serializeTransaction(tx, { witness: false }).toString('hex');
+}
+
+export function computeTxid(tx: ParsedTransaction): string {
+  return internalToTxid(sha256d(serializeTransaction(tx, { witness: false })));
+}
+
+export function computeWtxid(tx: ParsedTransaction): string {
+  return internalToTxid(sha256d(serializeTransaction(tx, { witness: true })));
+}
+
+// The node's JSON has amounts in BTC; rounding recovers the exact sats
+export function btcToSats(value: number): bigint {
+  return BigInt(Math.round(value * 1e8));
+}
+
+// Rebuilds the transaction from getrawtransaction's verbose JSON, where the hex is not at hand
+// or has to be cross-checked. Throws when the result does not hash to the node's txid and wtxid.
+export function transactionFromRpc(rpcTx: RawTransaction): ParsedTransaction {
+  const inputs: TxInput[] = rpcTx.vin.map(input => ({
+    // A coinbase spends the null outpoint
+    hash: input.coinbase !== undefined ? Buffer.alloc(32) : txidToInternal(input.txid!),
+    index: input.coinbase !== undefined ? 0xffffffff : input.vout!,
+    scriptSig: Buffer.from(input.coinbase ?? input.scriptSig?.hex ?? '', 'hex'),
+    sequence: input.sequence,
+    witness: (input.txinwitness ?? []).map(item => Buffer.from(item, 'hex'))
+  }));
+  const outputs: TxOutput[] = rpcTx.vout.map(output => ({
+    value: btcToSats(output.value),
+    scriptPubKey: Buffer.from(output.scriptPubKey.hex, 'hex')
+  }));
+  const tx: ParsedTransaction = {
+    version: rpcTx.version,
+    inputs,
+    outputs,
+    locktime: rpcTx.locktime,
+    segwit: inputs.some(input => input.witness.length > 0)
+  };
+
+  const txid = computeTxid(tx);
+  const wtxid = computeWtxid(tx);
+  if (txid !== rpcTx.txid || wtxid !== rpcTx.hash) {
+    throw new Error(`Rebuilt transaction does not match the node: txid ${txid} (node ${rpcTx.txid}), wtxid ${wtxid} (node ${rpcTx.hash})`);
+  }
+  return tx;
+}
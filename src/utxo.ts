@@ -0,0 +1,172 @@
+import fetch from 'node-fetch';
+import { BitcoinRpcClient, RPC_ERROR_CODES, RpcError } from './rpc.js';
+import { InFlight } from './block-cache.js';
+import { StateMap, StateStore } from './store.js';
+
+// mempool.space / Esplora /address/:address/utxo shape
+export interface Utxo {
+  txid: string;
+  vout: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_hash?: string;
+    block_time?: number;
+  };
+  value: number;
+}
+
+export interface UtxoOptions {
+  // Watch-only descriptor wallet on the node that tracks requested addresses
+  walletName: string;
+  // Rescan start for newly watched addresses: a unix timestamp, or 'now' to only see new outputs
+  rescanFrom: number | 'now';
+  // Esplora API base used when the wallet lookup fails; never used unless set
+  esploraFallbackUrl?: string;
+}
+
+// prefix selects <NAME>_UTXO_* for one of several networks (see network.ts)
+export function getUtxoOptions(prefix = ''): UtxoOptions {
+  const env = (name: string) => process.env[`${prefix}${name}`];
+  const rescanFrom = env('UTXO_RESCAN_FROM') || 'now';
+  return {
+    walletName: env('UTXO_WALLET') || 'proof-service-watch',
+    rescanFrom: rescanFrom === 'now' ? 'now' : Number(rescanFrom),
+    esploraFallbackUrl: env('UTXO_ESPLORA_FALLBACK_URL') || undefined
+  };
+}
+
+interface WatchedAddress {
+  importedAt: number;
+  rescanFrom: number | 'now';
+}
+
+interface ListUnspentEntry {
+  txid: string;
+  vout: number;
+  address: string;
+  amount: number;
+  confirmations: number;
+}
+
+interface WalletTransaction {
+  blockhash?: string;
+  blockheight?: number;
+  blocktime?: number;
+}
+
+interface ImportDescriptorsResult {
+  success: boolean;
+  error?: { code: number; message: string };
+}
+
+// A rescan walks every block since rescanFrom before importdescriptors returns
+const RESCAN_TIMEOUT_MS = 60 * 60 * 1000;
+
+// BTC amounts from the node as integer satoshis, without float rounding drift
+function toSats(amount: number): number {
+  return Math.round(amount * 1e8);
+}
+
+// UTXOs of an address from our own node: the first lookup imports addr(<address>) into a
+// watch-only descriptor wallet, after which listunspent answers from the wallet's index
+export class UtxoService {
+  readonly watched: StateMap<WatchedAddress>;
+  private readonly wallet: BitcoinRpcClient;
+  private readonly importing = new InFlight<void>();
+  private walletReady?: Promise<void>;
+
+  constructor(
+    private readonly rpc: BitcoinRpcClient,
+    store: StateStore,
+    private readonly options: UtxoOptions,
+    namespace = 'utxo-watched'
+  ) {
+    this.watched = new StateMap<WatchedAddress>(store, namespace);
+    this.wallet = rpc.wallet(options.walletName);
+  }
+
+  // Loads the wallet, creating it blank and without private keys on first use
+  private ensureWallet(): Promise<void> {
+    this.walletReady ??= (async () => {
+      try {
+        await this.rpc.call('loadwallet', [this.options.walletName]);
+        console.log(`👛 [UTXO] Loaded watch-only wallet ${this.options.walletName}`);
+      } catch (error) {
+        if (error instanceof RpcError && error.code === RPC_ERROR_CODES.WALLET_ALREADY_LOADED) {
+          return;
+        }
+        if (!(error instanceof RpcError && error.code === RPC_ERROR_CODES.WALLET_NOT_FOUND)) {
+          throw error;
+        }
+        // name, disable_private_keys, blank, passphrase, avoid_reuse, descriptors, load_on_startup
+        await this.rpc.call('createwallet', [this.options.walletName, true, true, '', false, true, true]);
+        console.log(`👛 [UTXO] Created watch-only wallet ${this.options.walletName}`);
+      }
+    })().catch(error => {
+      this.walletReady = undefined;
+      throw error;
+    });
+    return this.walletReady;
+  }
+
+  private async watch(address: string): Promise<void> {
+    if (await this.watched.get(address)) {
+      return;
+    }
+    return this.importing.run(address, async () => {
+      const { descriptor } = await this.rpc.call<{ descriptor: string }>('getdescriptorinfo', [`addr(${address})`]);
+      const [result] = await this.wallet.call<ImportDescriptorsResult[]>('importdescriptors', [[{
+        desc: descriptor,
+        timestamp: this.options.rescanFrom,
+        label: 'proof-service'
+      }]], this.options.rescanFrom === 'now' ? {} : { timeoutMs: RESCAN_TIMEOUT_MS, retries: 0 });
+      if (!result?.success) {
+        throw new RpcError(result?.error?.code ?? RPC_ERROR_CODES.MISC_ERROR, result?.error?.message ?? 'importdescriptors failed', 'importdescriptors');
+      }
+      await this.watched.set(address, { importedAt: Date.now(), rescanFrom: this.options.rescanFrom });
+      console.log(`👛 [UTXO] Watching ${address} (rescan from ${this.options.rescanFrom})`);
+    });
+  }
+
+  // Confirmed and mempool outputs of a watched address
+  async list(address: string): Promise<Utxo[]> {
+    await this.ensureWallet();
+    await this.watch(address);
+
+    // minconf 0 and include_unsafe so unconfirmed outputs from others show up too
+    const unspent = await this.wallet.call<ListUnspentEntry[]>('listunspent', [0, 9999999, [address], true]);
+
+    // One batched gettransaction per confirmed txid for its block hash, height and time
+    const confirmedTxids = [...new Set(unspent.filter(entry => entry.confirmations > 0).map(entry => entry.txid))];
+    const details = await this.wallet.batch<WalletTransaction[]>(
+      confirmedTxids.map(txid => ({ method: 'gettransaction', params: [txid, true] }))
+    );
+    const blocks = new Map(confirmedTxids.map((txid, index) => [txid, details[index]]));
+
+    return unspent.map(entry => {
+      const block = blocks.get(entry.txid);
+      return {
+        txid: entry.txid,
+        vout: entry.vout,
+        status: block?.blockhash
+          ? { confirmed: true, block_height: block.blockheight, block_hash: block.blockhash, block_time: block.blocktime }
+          : { confirmed: false },
+        value: toSats(entry.amount)
+      };
+    });
+  }
+
+  // Only called when UTXO_ESPLORA_FALLBACK_URL is set, since it sends the address to a third party
+  async listFromEsplora(address: string): Promise<Utxo[]> {
+    const response = await fetch(`${this.options.esploraFallbackUrl}/address/${address}/utxo`);
+    if (!response.ok) {
+      throw new Error(`Esplora API error: ${response.status} ${response.statusText}`);
+    }
+    return await response.json() as Utxo[];
+  }
+
+  get fallbackEnabled(): boolean {
+    return this.options.esploraFallbackUrl !== undefined;
+  }
+}
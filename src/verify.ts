@@ -0,0 +1,213 @@
+import { BitcoinRpcClient, BlockInfo } from './rpc.js';
+import type { BlockCache } from './block-cache.js';
+import {
+  buildMerkleTree,
+  headerHash,
+  headerMerkleRoot,
+  merklePath,
+  merkleRootFromPath,
+  sha256d,
+  toHashList,
+  txidToInternal
+} from './merkle.js';
+import { TxOutput, parseTransaction } from './tx.js';
+
+const ZERO_HASH = '0000000000000000000000000000000000000000000000000000000000000000';
+const WITNESS_COMMITMENT_PREFIX = Buffer.from('6a24aa21a9ed', 'hex');
+
+// Proof fields we can verify, read from either clarity-bitcoin-client or bitcoin-tx-proof output
+export interface ProofFields {
+  segwit: boolean;
+  header: string;
+  txIndex: number;
+  treeDepth: number;
+  merkleProof: Buffer[];
+  witnessMerkleProof: Buffer[];
+  witnessMerkleRoot?: string;
+  witnessReservedValue: string;
+  coinbaseTxHex?: string;
+  coinbaseMerkleProof: Buffer[];
+}
+
+export interface VerificationContext {
+  txid: string;
+  // Full serialization from the node, including witness data
+  txHex: string;
+  blockHash: string;
+  // Display-order txids of the whole block
+  blockTxids: string[];
+  // Prebuilt txid tree for blockTxids, when several proofs from one block are checked
+  blockLevels?: Buffer[][];
+}
+
+export interface VerificationCheck {
+  name: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface ProofVerification {
+  verified: boolean;
+  reason?: string;
+  checks: VerificationCheck[];
+}
+
+export type VerifyMode = 'flag' | 'strict';
+
+export function parseVerifyMode(value: unknown): VerifyMode {
+  return value === 'strict' ? 'strict' : 'flag';
+}
+
+function stripHex(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.replace(/^0x/, '').toLowerCase() : undefined;
+}
+
+export function readProofFields(proof: any): ProofFields {
+  const legacyPath = proof.merkleProof ?? proof.proof?.hashes ?? proof.proof;
+
+  return {
+    segwit: proof.segwit !== false,
+    header: stripHex(proof.header ?? proof.blockHeader) || '',
+    txIndex: Number(proof.txIndex),
+    treeDepth: Number(proof.treeDepth ?? proof.merkleProofDepth),
+    merkleProof: toHashList(legacyPath),
+    witnessMerkleProof: toHashList(proof.witnessMerkleProof ?? proof.wproof),
+    witnessMerkleRoot: stripHex(proof.witnessMerkleRoot ?? proof.computedWtxidRoot),
+    witnessReservedValue: stripHex(proof.witnessReservedValue) || ZERO_HASH,
+    coinbaseTxHex: stripHex(proof.ctxHex ?? proof.legacyCoinbaseTxHex ?? proof.ctx),
+    coinbaseMerkleProof: toHashList(proof.coinbaseMerkleProof ?? proof.cproof)
+  };
+}
+
+// BIP141: the commitment is in the last coinbase output whose script starts with
+// OP_RETURN, a 36-byte push and the aa21a9ed header
+export function extractWitnessCommitment(coinbaseTxHex: string): string | null {
+  let outputs: TxOutput[];
+  try {
+    outputs = parseTransaction(coinbaseTxHex).outputs;
+  } catch (error) {
+    return null;
+  }
+
+  const output = outputs.filter(item => item.scriptPubKey.length >= 38 && item.scriptPubKey.subarray(0, 6).equals(WITNESS_COMMITMENT_PREFIX)).pop();
+  return output ? output.scriptPubKey.subarray(6, 38).toString('hex') : null;
+}
+
+// Checks a proof the same way was-tx-mined-compact / was-segwit-tx-mined-compact will on Stacks
+export function verifyProof(proof: unknown, context: VerificationContext): ProofVerification {
+  const checks: VerificationCheck[] = [];
+  const check = (name: string, run: () => string | true) => {
+    try {
+      const result = run();
+      checks.push(result === true ? { name, ok: true } : { name, ok: false, detail: result });
+    } catch (error) {
+      checks.push({ name, ok: false, detail: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+
+  const fields = readProofFields(proof);
+  const levels = context.blockLevels ?? buildMerkleTree(context.blockTxids.map(txidToInternal));
+  const expectedDepth = levels.length - 1;
+
+  check('header', () => {
+    const hash = headerHash(fields.header);
+    return hash === context.blockHash || `header hashes to ${hash}, expected ${context.blockHash}`;
+  });
+
+  check('tx-index', () => {
+    const found = context.blockTxids.indexOf(context.txid);
+    return found === fields.txIndex || `tx is at index ${found} in the block, proof says ${fields.txIndex}`;
+  });
+
+  check('tree-depth', () =>
+    fields.treeDepth === expectedDepth || `block tree depth is ${expectedDepth}, proof says ${fields.treeDepth}`
+  );
+
+  check('txid-path', () => {
+    // Segwit proofs carry no txid path, so walk the one we derive from the block;
+    // a legacy proof is checked on the path it returned
+    let path = fields.merkleProof;
+    if (fields.segwit) {
+      path = merklePath(levels, fields.txIndex);
+    } else if (path.length !== fields.treeDepth) {
+      return `txid proof has ${path.length} hashes, expected ${fields.treeDepth}`;
+    }
+    const root = merkleRootFromPath(txidToInternal(context.txid), fields.txIndex, path);
+    return root.equals(headerMerkleRoot(fields.header)) || 'txid does not hash up to the header merkle root';
+  });
+
+  if (fields.segwit) {
+    const coinbaseTxHex = fields.coinbaseTxHex;
+
+    check('coinbase-path', () => {
+      if (!coinbaseTxHex) {
+        return 'proof has no coinbase transaction';
+      }
+      if (fields.coinbaseMerkleProof.length !== fields.treeDepth) {
+        return `coinbase proof has ${fields.coinbaseMerkleProof.length} hashes, expected ${fields.treeDepth}`;
+      }
+      const root = merkleRootFromPath(sha256d(Buffer.from(coinbaseTxHex, 'hex')), 0, fields.coinbaseMerkleProof);
+      return root.equals(headerMerkleRoot(fields.header)) || 'coinbase does not hash up to the header merkle root';
+    });
+
+    check('wtxid-path', () => {
+      if (!fields.witnessMerkleRoot) {
+        return 'proof has no witness merkle root';
+      }
+      if (fields.witnessMerkleProof.length !== fields.treeDepth) {
+        return `witness proof has ${fields.witnessMerkleProof.length} hashes, expected ${fields.treeDepth}`;
+      }
+      // BIP141: the coinbase's wtxid is all zeros
+      const wtxid = fields.txIndex === 0 ? Buffer.from(ZERO_HASH, 'hex') : sha256d(Buffer.from(context.txHex, 'hex'));
+      const root = merkleRootFromPath(wtxid, fields.txIndex, fields.witnessMerkleProof);
+      return root.toString('hex') === fields.witnessMerkleRoot || 'wtxid does not hash up to the witness merkle root';
+    });
+
+    check('witness-commitment', () => {
+      if (!coinbaseTxHex || !fields.witnessMerkleRoot) {
+        return 'proof has no coinbase transaction or witness merkle root';
+      }
+      const commitment = extractWitnessCommitment(coinbaseTxHex);
+      if (!commitment) {
+        return 'coinbase has no witness commitment';
+      }
+      const expected = sha256d(Buffer.from(fields.witnessMerkleRoot + fields.witnessReservedValue, 'hex')).toString('hex');
+      return commitment === expected || `coinbase commits to ${commitment}, witness root and reserved value give ${expected}`;
+    });
+  }
+
+  const failed = checks.find(item => !item.ok);
+  return {
+    verified: !failed,
+    reason: failed ? `${failed.name}: ${failed.detail}` : undefined,
+    checks
+  };
+}
+
+// Fetches what verifyProof needs from the node in one batched round-trip, or
+// takes the block's txids and tree from the block cache when one is given
+export async function verifyProofAgainstNode(
+  rpc: BitcoinRpcClient,
+  txid: string,
+  blockHash: string,
+  proof: unknown,
+  blocks?: BlockCache
+): Promise<ProofVerification> {
+  try {
+    if (blocks) {
+      const [txHex, context] = await Promise.all([rpc.getRawTransactionHex(txid, blockHash), blocks.get(blockHash)]);
+      return verifyProof(proof, { txid, txHex, blockHash, blockTxids: context.txids, blockLevels: context.txidLevels });
+    }
+    const [txHex, block] = await rpc.batch<[string, BlockInfo]>([
+      { method: 'getrawtransaction', params: [txid, false, blockHash] },
+      { method: 'getblock', params: [blockHash, 1] }
+    ]);
+    return verifyProof(proof, { txid, txHex, blockHash, blockTxids: block.tx });
+  } catch (error) {
+    return {
+      verified: false,
+      reason: `verification could not run: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      checks: []
+    };
+  }
+}
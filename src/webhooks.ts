@@ -0,0 +1,462 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import fetch from 'node-fetch';
+import { BitcoinRpcClient, RawTransaction, RPC_ERROR_CODES } from './rpc.js';
+import { StateMap, StateStore } from './store.js';
+
+export type WebhookEvent = 'tx.mempool' | 'tx.confirmed' | 'tx.depth_reached' | 'proof.ready' | 'tx.reorged';
+
+export interface DeliveryAttempt {
+  deliveryId: string;
+  event: WebhookEvent;
+  attempt: number;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  at: number;
+  nextRetryAt?: number;
+}
+
+export interface Subscription {
+  id: string;
+  // The API key that created it; only that key can read or delete it
+  keyId: string;
+  txid: string;
+  callbackUrl: string;
+  minConfirmations: number;
+  // HMAC-SHA256 key for the X-Webhook-Signature header, only returned on creation
+  secret: string;
+  status: 'active' | 'completed';
+  createdAt: number;
+  // What has been notified so far
+  seenInMempool: boolean;
+  blockHash?: string;
+  confirmations: number;
+  depthReached: boolean;
+  proofReady: boolean;
+  deliveries: DeliveryAttempt[];
+}
+
+// A failed delivery waiting for its next attempt, kept in the store so a restart resumes it
+export interface PendingDelivery {
+  deliveryId: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  data: Record<string, unknown>;
+  attempt: number;
+  nextAttemptAt: number;
+}
+
+export interface WebhookOptions {
+  pollIntervalMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  timeoutMs: number;
+  // Keep watching for reorgs this many blocks past the required depth
+  reorgWatchDepth: number;
+  // Callbacks to loopback, private, link-local and metadata addresses, for local development
+  allowPrivateCallbacks: boolean;
+}
+
+export function getWebhookOptions(): WebhookOptions {
+  return {
+    pollIntervalMs: Number(process.env.WEBHOOK_POLL_INTERVAL_MS || 30000),
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS || 6),
+    retryBaseDelayMs: Number(process.env.WEBHOOK_RETRY_DELAY_MS || 2000),
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS || 10000),
+    reorgWatchDepth: Number(process.env.WEBHOOK_REORG_WATCH_DEPTH || 6),
+    allowPrivateCallbacks: process.env.WEBHOOK_ALLOW_PRIVATE_CALLBACKS === 'true'
+  };
+}
+
+const MAX_DELIVERY_LOG = 100;
+
+// Builds the proof sent with proof.ready
+export type WebhookProofBuilder = (txid: string, blockHash: string) => Promise<unknown>;
+
+// Addresses a callback must not reach: this host, private networks and cloud metadata services
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, length] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, length, 'ipv4');
+}
+for (const [prefix, length] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, length, 'ipv6');
+}
+
+// BlockList matches IPv4-mapped IPv6 addresses against the IPv4 ranges
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Why a callback URL may not be used, after resolving its host, or undefined when it may
+export async function callbackUrlProblem(url: URL, options: Pick<WebhookOptions, 'allowPrivateCallbacks'>): Promise<string | undefined> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'callbackUrl must use http or https';
+  }
+  if (options.allowPrivateCallbacks) {
+    return undefined;
+  }
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = net.isIP(host) ? [{ address: host, family: net.isIP(host) }] : await dns.promises.lookup(host, { all: true });
+  } catch (error) {
+    return `callbackUrl host ${host} could not be resolved`;
+  }
+  const blocked = addresses.find(item => isBlockedAddress(item.address));
+  return blocked ? `callbackUrl resolves to ${blocked.address}, which is a loopback, private, link-local or metadata address` : undefined;
+}
+
+// Resolves like dns.lookup but fails for blocked addresses, so a host that resolves
+// differently by the time of delivery cannot reach them either
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+    const allowed = addresses.filter(item => !isBlockedAddress(item.address));
+    if (allowed.length === 0) {
+      return callback(new Error(`${hostname} resolves only to blocked addresses`), '', 0);
+    }
+    if (options.all) {
+      return (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, allowed);
+    }
+    callback(null, allowed[0].address, allowed[0].family);
+  });
+};
+
+const guardedAgents = {
+  'http:': new http.Agent({ lookup: guardedLookup }),
+  'https:': new https.Agent({ lookup: guardedLookup })
+};
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Subscriptions without their secret, for listing
+export function publicSubscription({ secret, ...subscription }: Subscription) {
+  return subscription;
+}
+
+// Watches subscribed txids and notifies their callback URL as they move from the
+// mempool to the required depth, when the proof is ready, and if they are reorged out
+export class SubscriptionService {
+  readonly subscriptions: StateMap<Subscription>;
+  // Failed deliveries by delivery id, until they succeed or run out of attempts
+  readonly retries: StateMap<PendingDelivery>;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  // Tail of the queued read-modify-write updates per subscription
+  private updates = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly rpc: BitcoinRpcClient,
+    private readonly store: StateStore,
+    private readonly options: WebhookOptions,
+    private readonly buildProof: WebhookProofBuilder,
+    namespace = 'subscriptions'
+  ) {
+    this.subscriptions = new StateMap<Subscription>(store, namespace, { maxEntries: 10000 });
+    this.retries = new StateMap<PendingDelivery>(store, `${namespace}-retries`, { maxEntries: 10000 });
+  }
+
+  async create(keyId: string, txid: string, callbackUrl: string, minConfirmations: number): Promise<Subscription> {
+    const subscription: Subscription = {
+      id: `sub-${crypto.randomUUID()}`,
+      keyId,
+      txid,
+      callbackUrl,
+      minConfirmations,
+      secret: crypto.randomBytes(32).toString('hex'),
+      status: 'active',
+      createdAt: Date.now(),
+      seenInMempool: false,
+      confirmations: 0,
+      depthReached: false,
+      proofReady: false,
+      deliveries: []
+    };
+    await this.subscriptions.set(subscription.id, subscription);
+    console.log(`📬 [WEBHOOK] Subscription ${subscription.id} for ${txid} -> ${callbackUrl}`);
+
+    // Check right away rather than waiting for the next poll
+    this.checkOne(subscription.id).catch(error => console.error(`❌ [WEBHOOK] Initial check of ${subscription.id} failed:`, error));
+    return subscription;
+  }
+
+  // All subscriptions, or those of one key
+  async list(keyId?: string): Promise<Subscription[]> {
+    const ids = await this.subscriptions.keys();
+    const found = await Promise.all(ids.map(id => this.subscriptions.get(id)));
+    return found
+      .filter((item): item is Subscription => item !== undefined && (keyId === undefined || item.keyId === keyId))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // Queued behind updates of the same subscription, so none of them writes it back afterwards
+  async remove(id: string): Promise<void> {
+    await this.serialize(id, () => this.subscriptions.delete(id));
+  }
+
+  start() {
+    this.resumeRetries().catch(error => console.error('❌ [WEBHOOK] Resuming delivery retries failed:', error));
+    if (this.timer || this.options.pollIntervalMs <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.check().catch(error => console.error('❌ [WEBHOOK] Subscription poll failed:', error));
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async check(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    // With a shared store, one worker polls per interval
+    const slot = Math.floor(Date.now() / this.options.pollIntervalMs);
+    if (!(await this.store.setIfAbsent('locks', `webhook-poll:${this.subscriptions.namespace}:${slot}`, process.pid, { ttlMs: this.options.pollIntervalMs }))) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const active = (await this.list()).filter(subscription => subscription.status === 'active');
+      if (active.length === 0) {
+        return;
+      }
+
+      // One getrawtransaction per subscribed txid, in a single batch
+      const txids = [...new Set(active.map(subscription => subscription.txid))];
+      const replies = await this.rpc.batchSettled(txids.map(txid => ({ method: 'getrawtransaction', params: [txid, true] })));
+
+      const transactions = new Map<string, RawTransaction | null>();
+      txids.forEach((txid, index) => {
+        const reply = replies[index];
+        if (reply.ok) {
+          transactions.set(txid, reply.result as RawTransaction);
+        } else if (reply.error.code === RPC_ERROR_CODES.INVALID_ADDRESS_OR_KEY) {
+          // Not in the mempool or the chain (dropped, or not broadcast yet)
+          transactions.set(txid, null);
+        }
+      });
+
+      for (const subscription of active) {
+        if (transactions.has(subscription.txid)) {
+          await this.advance(subscription.id, transactions.get(subscription.txid)!);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async checkOne(id: string) {
+    const subscription = await this.subscriptions.get(id);
+    if (!subscription) {
+      return;
+    }
+    try {
+      await this.advance(id, await this.rpc.getRawTransaction(subscription.txid));
+    } catch (error) {
+      if ((error as { code?: number }).code === RPC_ERROR_CODES.INVALID_ADDRESS_OR_KEY) {
+        await this.advance(id, null);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // Runs after the updates already queued for the subscription
+  private serialize<T>(id: string, run: () => Promise<T>): Promise<T> {
+    const result = (this.updates.get(id) ?? Promise.resolve()).then(run);
+    const tail = result.catch(() => undefined);
+    this.updates.set(id, tail);
+    tail.then(() => {
+      if (this.updates.get(id) === tail) {
+        this.updates.delete(id);
+      }
+    });
+    return result;
+  }
+
+  // Reads the subscription, applies the change and writes it back, unless it was deleted
+  private update<T>(id: string, change: (subscription: Subscription) => T | Promise<T>): Promise<T | undefined> {
+    return this.serialize(id, async () => {
+      const subscription = await this.subscriptions.get(id);
+      if (!subscription) {
+        return undefined;
+      }
+      const result = await change(subscription);
+      await this.subscriptions.set(id, subscription);
+      return result;
+    });
+  }
+
+  private async advance(id: string, tx: RawTransaction | null) {
+    const events = await this.update(id, subscription => this.transition(subscription, tx));
+    for (const [event, data] of events ?? []) {
+      this.deliver(id, event, data);
+    }
+  }
+
+  // Compares what the node reports with what was last notified and returns the difference
+  private async transition(subscription: Subscription, tx: RawTransaction | null): Promise<[WebhookEvent, Record<string, unknown>][]> {
+    const events: [WebhookEvent, Record<string, unknown>][] = [];
+    if (subscription.status !== 'active') {
+      return events;
+    }
+    const confirmations = tx?.confirmations ?? 0;
+    const blockHash = tx?.blockhash;
+
+    // The block we reported is gone: the tx is back in the mempool, dropped, or in another block
+    if (subscription.blockHash && subscription.blockHash !== blockHash) {
+      events.push(['tx.reorged', { oldBlockHash: subscription.blockHash, blockHash: blockHash ?? null }]);
+      subscription.blockHash = undefined;
+      subscription.depthReached = false;
+      subscription.proofReady = false;
+    }
+
+    if (tx && !blockHash && !subscription.seenInMempool) {
+      subscription.seenInMempool = true;
+      events.push(['tx.mempool', {}]);
+    }
+
+    if (blockHash && !subscription.blockHash) {
+      subscription.blockHash = blockHash;
+      events.push(['tx.confirmed', { blockHash, confirmations }]);
+    }
+
+    if (blockHash && confirmations >= subscription.minConfirmations && !subscription.depthReached) {
+      subscription.depthReached = true;
+      events.push(['tx.depth_reached', { blockHash, confirmations, required: subscription.minConfirmations }]);
+    }
+
+    subscription.confirmations = confirmations;
+
+    if (subscription.depthReached && !subscription.proofReady && blockHash) {
+      try {
+        const proof = await this.buildProof(subscription.txid, blockHash);
+        subscription.proofReady = true;
+        events.push(['proof.ready', { blockHash, confirmations, proof }]);
+      } catch (error) {
+        // Retried on the next poll
+        console.error(`❌ [WEBHOOK] Proof for ${subscription.txid} not ready:`, error);
+      }
+    }
+
+    if (subscription.proofReady && confirmations >= subscription.minConfirmations + this.options.reorgWatchDepth) {
+      subscription.status = 'completed';
+      console.log(`✅ [WEBHOOK] Subscription ${subscription.id} completed at ${confirmations} confirmations`);
+    }
+
+    return events;
+  }
+
+  private log(id: string, attempt: DeliveryAttempt): Promise<void> {
+    return this.update(id, subscription => {
+      subscription.deliveries = [...subscription.deliveries, attempt].slice(-MAX_DELIVERY_LOG);
+    }).then(() => undefined);
+  }
+
+  // Schedules the retries left by an earlier run, at their stored time or right away if it has passed
+  private async resumeRetries() {
+    const ids = await this.retries.keys();
+    const pending = (await Promise.all(ids.map(id => this.retries.get(id)))).filter((item): item is PendingDelivery => item !== undefined);
+    if (pending.length > 0) {
+      console.log(`📬 [WEBHOOK] Resuming ${pending.length} delivery retr${pending.length === 1 ? 'y' : 'ies'}`);
+    }
+    for (const retry of pending) {
+      this.schedule(retry);
+    }
+  }
+
+  private schedule(retry: PendingDelivery) {
+    setTimeout(
+      () => this.deliver(retry.subscriptionId, retry.event, retry.data, retry.deliveryId, retry.attempt),
+      Math.max(retry.nextAttemptAt - Date.now(), 0)
+    ).unref();
+  }
+
+  // Sends one event, retrying with exponential backoff until it is acknowledged with a 2xx
+  deliver(id: string, event: WebhookEvent, data: Record<string, unknown>, deliveryId = `dlv-${crypto.randomUUID()}`, attempt = 1) {
+    this.attempt(id, event, data, deliveryId, attempt)
+      .catch(error => console.error(`❌ [WEBHOOK] Delivery ${deliveryId} could not be recorded:`, error));
+  }
+
+  private async attempt(id: string, event: WebhookEvent, data: Record<string, unknown>, deliveryId: string, attempt: number) {
+    // With a shared store, a resumed retry is sent by one worker only
+    if (!(await this.store.setIfAbsent('locks', `webhook-delivery:${deliveryId}:${attempt}`, process.pid, { ttlMs: this.options.timeoutMs * 2 }))) {
+      return;
+    }
+    const subscription = await this.subscriptions.get(id);
+    if (!subscription) {
+      await this.retries.delete(deliveryId);
+      return;
+    }
+
+    const timestamp = Date.now();
+    const body = JSON.stringify({ id: deliveryId, subscriptionId: id, event, txid: subscription.txid, timestamp, data });
+    const record: DeliveryAttempt = { deliveryId, event, attempt, ok: false, at: timestamp };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    try {
+      const url = new URL(subscription.callbackUrl);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Event': event,
+          'X-Webhook-Delivery': deliveryId,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signPayload(subscription.secret, timestamp, body)}`
+        },
+        body,
+        signal: controller.signal,
+        // Redirects are not followed, they could lead to a blocked address
+        redirect: 'manual',
+        ...(this.options.allowPrivateCallbacks ? {} : { agent: guardedAgents[url.protocol as keyof typeof guardedAgents] })
+      });
+      record.status = response.status;
+      record.ok = response.ok;
+      if (!response.ok) {
+        record.error = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!record.ok && attempt < this.options.maxAttempts) {
+      const delay = this.options.retryBaseDelayMs * 2 ** (attempt - 1);
+      record.nextRetryAt = Date.now() + delay;
+      const retry: PendingDelivery = { deliveryId, subscriptionId: id, event, data, attempt: attempt + 1, nextAttemptAt: record.nextRetryAt };
+      await this.retries.set(deliveryId, retry);
+      this.schedule(retry);
+    } else {
+      await this.retries.delete(deliveryId);
+    }
+
+    if (record.ok) {
+      console.log(`📨 [WEBHOOK] ${event} delivered to ${subscription.callbackUrl} (${deliveryId})`);
+    } else {
+      console.error(`❌ [WEBHOOK] ${event} to ${subscription.callbackUrl} failed (attempt ${attempt}): ${record.error}`);
+    }
+    await this.log(id, record);
+  }
+}
@@ -0,0 +1,74 @@
+import assert from 'assert/strict';
+import { describe, test } from 'node:test';
+import {
+  buildMerkleTree,
+  headerHash,
+  headerMerkleRoot,
+  internalToTxid,
+  merklePath,
+  merkleRoot,
+  merkleRootFromPath,
+  toHashList,
+  txidToInternal
+} from '../src/merkle.js';
+
+// Mainnet block 100000: four transactions
+const BLOCK_100000 = {
+  hash: '000000000003ba27aa200b1cecaad478d2b00432346c3f1f3986da1afd33e506',
+  header: '0100000050120119172a610421a6c3011dd330d9df07b63616c2cc1f1cd00200000000006657a9252aacd5c0b2940996ecff952228c3067cc38d4885efb5a4ac4247e9f337221b4d4c86041b0f2b5710',
+  merkleRoot: 'f3e94742aca4b5ef85488dc37c06c3282295ffec960994b2c0d5ac2a25a95766',
+  txids: [
+    '8c14f0db3df150123e6f3dbbf30f8b955a8249b62ac1d1ff16284aefa3d06d87',
+    'fff2525b8931402dd09222c50775608f75787bd2b87e56995a7bdd30f79702c4',
+    '6359f0868171b1d194cbee1af2f16ea598ae8fad666d9b012c8ed2b79a236ec4',
+    'e9a66845e05d5abc0ad04ec80f774a7e585c6e8db975962d069a522137b80c1d'
+  ]
+};
+
+const leaves = BLOCK_100000.txids.map(txidToInternal);
+
+describe('merkle', () => {
+  test('builds the merkle root of a mainnet block', () => {
+    const levels = buildMerkleTree(leaves);
+    assert.equal(levels.length, 3);
+    assert.equal(internalToTxid(merkleRoot(levels)), BLOCK_100000.merkleRoot);
+  });
+
+  test('reads the header hash and merkle root', () => {
+    assert.equal(headerHash(BLOCK_100000.header), BLOCK_100000.hash);
+    assert.equal(internalToTxid(headerMerkleRoot(`0x${BLOCK_100000.header}`)), BLOCK_100000.merkleRoot);
+    assert.throws(() => headerMerkleRoot(BLOCK_100000.header.slice(2)), /80 bytes/);
+  });
+
+  test('every path hashes up to the root, and only from its own index', () => {
+    const levels = buildMerkleTree(leaves);
+    const root = merkleRoot(levels);
+    leaves.forEach((leaf, index) => {
+      const path = merklePath(levels, index);
+      assert.equal(path.length, 2);
+      assert.ok(merkleRootFromPath(leaf, index, path).equals(root), `path for ${index}`);
+      assert.ok(!merkleRootFromPath(leaf, index ^ 1, path).equals(root), `path for ${index} at ${index ^ 1}`);
+    });
+  });
+
+  test('an odd level pairs its last hash with itself', () => {
+    const odd = leaves.slice(0, 3);
+    const levels = buildMerkleTree(odd);
+    assert.deepEqual(merklePath(levels, 2)[0], odd[2]);
+    assert.ok(merkleRootFromPath(odd[2], 2, merklePath(levels, 2)).equals(merkleRoot(levels)));
+  });
+
+  test('a single transaction is its own root', () => {
+    const levels = buildMerkleTree([leaves[0]]);
+    assert.deepEqual(merkleRoot(levels), leaves[0]);
+    assert.deepEqual(merklePath(levels, 0), []);
+    assert.throws(() => buildMerkleTree([]), /without leaves/);
+  });
+
+  test('reads hash lists as arrays or one concatenated string', () => {
+    const hex = leaves.map(leaf => leaf.toString('hex'));
+    assert.deepEqual(toHashList(hex.map(item => `0x${item}`)), leaves);
+    assert.deepEqual(toHashList(`0x${hex.join('')}`), leaves);
+    assert.deepEqual(toHashList(undefined), []);
+  });
+});
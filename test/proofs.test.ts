@@ -0,0 +1,240 @@
+import assert from 'assert/strict';
+import fs from 'fs';
+import { after, before, describe, test } from 'node:test';
+import { buildMerkleTree, merklePath, merkleRoot, txidToInternal } from '../src/merkle.js';
+import { serializeTransaction, serializeWitness } from '../src/tx.js';
+import { RunningApp, startApp } from './support/app.js';
+import { CASE_CHAIN, FRIEDGER_WITNESS, SYNTHETIC_CASES } from './support/cases.js';
+import { FIXTURES_DIR, loadFixture } from './support/fixtures.js';
+import { StubBitcoind } from './support/stub-bitcoind.js';
+
+const FRIEDGER_TXID = 'a54f313f68172ac996c37d36baa885486dfea900cce4debca3fcdea7ea45f64f';
+const FRIEDGER_FIXTURE = 'friedger-906982';
+
+// Fixtures recorded from a node with npm run record-fixture; every one found is replayed
+const recordedNames = fs.existsSync(FIXTURES_DIR)
+  ? fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.json.gz')).map(file => file.slice(0, -'.json.gz'.length))
+  : [];
+
+async function withApp(stub: StubBitcoind, run: (app: RunningApp) => Promise<void>) {
+  await stub.start();
+  let app: RunningApp | undefined;
+  try {
+    app = await startApp(stub.port);
+    await run(app);
+  } catch (error) {
+    if (app && error instanceof Error) {
+      error.message += `\n--- service output ---\n${app.logs()}`;
+    }
+    throw error;
+  } finally {
+    await app?.stop();
+    await stub.stop();
+  }
+}
+
+const hex = (value: Buffer | string) => `0x${Buffer.isBuffer(value) ? value.toString('hex') : value}`;
+
+// What a proof of `txid` has to contain, worked out from the hand-built block
+function expectedProof(txid: string) {
+  const { block, index, tx } = CASE_CHAIN.find(txid)!;
+  const txidLevels = buildMerkleTree(block.txids.map(txidToInternal));
+  const wtxidLevels = buildMerkleTree(block.wtxids.map((wtxid, position) => position === 0 ? Buffer.alloc(32) : txidToInternal(wtxid)));
+  return {
+    block,
+    index,
+    tx,
+    treeDepth: txidLevels.length - 1,
+    merkleProof: merklePath(txidLevels, index).map(hash => hash.toString('hex')),
+    witnessMerkleRoot: merkleRoot(wtxidLevels).toString('hex'),
+    witnessMerkleProof: merklePath(wtxidLevels, index).map(hash => hash.toString('hex')),
+    coinbaseMerkleProof: merklePath(txidLevels, 0).map(hash => hash.toString('hex')),
+    ctxHex: serializeTransaction(block.txs[0], { witness: false }).toString('hex')
+  };
+}
+
+type ArgsBody = { fn: string; args: Array<{ name: string; value: unknown }> };
+const argValues = (body: unknown) => Object.fromEntries((body as ArgsBody).args.map(arg => [arg.name, arg.value]));
+
+// Proofs from blocks built byte by byte, checked against what the blocks say rather than
+// against an earlier response, so they need no node and catch a wrong proof
+describe('synthetic chain', () => {
+  let app: RunningApp;
+  const stub = new StubBitcoind({}, CASE_CHAIN);
+
+  before(async () => {
+    await stub.start();
+    app = await startApp(stub.port);
+  });
+
+  after(async () => {
+    await app?.stop();
+    await stub.stop();
+  });
+
+  for (const item of SYNTHETIC_CASES) {
+    test(`${item.name}: ${item.description}`, async () => {
+      const expected = expectedProof(item.txid);
+      const { block, index, tx } = expected;
+      const fail = (message: string) => `${message}\n--- service output ---\n${app.logs()}`;
+
+      const native = await app.get(`/api/proof/${item.txid}?provider=native`);
+      assert.equal(native.status, 200, fail(`native proof answered ${native.status}`));
+      const proof = native.body as Record<string, unknown>;
+      assert.equal(proof.verified, true, 'native proof is not verified');
+      assert.equal(proof.segwit, item.segwit);
+      assert.equal(proof.height, block.height);
+      assert.equal(proof.header, block.header);
+      assert.equal(proof.txIndex, index);
+      assert.equal(proof.treeDepth, expected.treeDepth);
+      assert.deepEqual(proof.merkleProof, expected.merkleProof);
+      assert.equal(proof.hasWitnessCommitment, block.hasWitnessCommitment);
+      if (block.hasWitnessCommitment) {
+        assert.equal(proof.witnessMerkleRoot, expected.witnessMerkleRoot);
+        assert.deepEqual(proof.witnessMerkleProof, expected.witnessMerkleProof);
+        assert.deepEqual(proof.coinbaseMerkleProof, expected.coinbaseMerkleProof);
+        assert.equal(proof.ctxHex, expected.ctxHex);
+      }
+
+      const clarity = await app.get(`/api/proof/${item.txid}/clarity-args`);
+      assert.equal(clarity.status, 200, fail(`clarity-args answered ${clarity.status}`));
+      const args = argValues(clarity.body);
+      assert.equal(args.height, block.height);
+      assert.equal(args.header, hex(block.header));
+      if (item.segwit) {
+        assert.equal((clarity.body as ArgsBody).fn, 'was-segwit-tx-mined-compact');
+        assert.equal(args.wtx, hex(serializeTransaction(tx)));
+        assert.equal(args['tx-index'], index);
+        assert.equal(args['tree-depth'], expected.treeDepth);
+        assert.deepEqual(args.wproof, expected.witnessMerkleProof.map(hex));
+        assert.equal(args['witness-merkle-root'], hex(expected.witnessMerkleRoot));
+        assert.equal(args['witness-reserved-value'], hex('00'.repeat(32)));
+        assert.equal(args.ctx, hex(expected.ctxHex));
+        assert.deepEqual(args.cproof, expected.coinbaseMerkleProof.map(hex));
+
+        const tuple = await app.get(`/api/proof/${item.txid}/clarity-args?form=tuple`);
+        assert.equal(tuple.status, 200, fail(`clarity-args?form=tuple answered ${tuple.status}`));
+        const tupleArgs = argValues(tuple.body);
+        const wtx = tupleArgs.wtx as { version: string; locktime: string; ins: unknown[]; outs: unknown[] };
+        assert.equal(wtx.version, hex(Buffer.from([tx.version, 0, 0, 0])));
+        assert.equal(wtx.locktime, hex(Buffer.from([tx.locktime, 0, 0, 0])));
+        assert.equal(wtx.ins.length, tx.inputs.length);
+        assert.equal(wtx.outs.length, tx.outputs.length);
+        assert.equal(tupleArgs['witness-data'], hex(serializeWitness(tx)));
+      } else {
+        assert.equal((clarity.body as ArgsBody).fn, 'was-tx-mined-compact');
+        assert.equal(args.tx, hex(serializeTransaction(tx, { witness: false })));
+        assert.deepEqual(args.proof, { 'tx-index': index, hashes: expected.merkleProof.map(hex), 'tree-depth': expected.treeDepth });
+
+        // Kenny proofs without witness data are built here; with it they come from bitcoin-tx-proof
+        const kenny = await app.get(`/api/proof-kenny/${item.txid}`);
+        assert.equal(kenny.status, 200, fail(`Kenny proof answered ${kenny.status}`));
+        const kennyProof = kenny.body as Record<string, unknown>;
+        assert.equal(kennyProof.verified, true, 'Kenny proof is not verified');
+        assert.equal(kennyProof.segwit, false);
+        assert.equal(kennyProof.txIndex, index);
+        assert.deepEqual(kennyProof.merkleProof, expected.merkleProof);
+      }
+
+      const esplora = await app.get(`/api/tx/${item.txid}`);
+      assert.equal(esplora.status, 200, fail(`/api/tx answered ${esplora.status}`));
+      const esploraTx = esplora.body as { txid: string; wtxid: string; version: number; status: { block_hash: string; block_height: number } };
+      assert.equal(esploraTx.txid, item.txid);
+      assert.equal(esploraTx.wtxid, block.wtxids[index]);
+      assert.equal(esploraTx.version, tx.version);
+      assert.equal(esploraTx.status.block_hash, block.hash);
+      assert.equal(esploraTx.status.block_height, block.height);
+    });
+  }
+
+  test('p2wpkh: witness data is serialized as in the call that passed on Stacks', async () => {
+    const item = SYNTHETIC_CASES.find(candidate => candidate.name === 'p2wpkh')!;
+    const { status, body } = await app.get(`/api/proof/${item.txid}/clarity-args?form=tuple`);
+    assert.equal(status, 200);
+    // Two items: the 71-byte (0x47) signature and the 33-byte (0x21) public key
+    assert.equal(argValues(body)['witness-data'], `0x0247${FRIEDGER_WITNESS[0]}21${FRIEDGER_WITNESS[1]}`);
+    assert.ok(String(argValues(body)['witness-data']).startsWith(FRIEDGER_WITNESS_DATA_PREFIX));
+  });
+});
+
+describe('fixture replay', () => {
+  for (const name of recordedNames) {
+    const fixture = loadFixture(name)!;
+    test(`${name}: ${fixture.description || 'Recorded fixture'}`, async () => {
+      const stub = new StubBitcoind(fixture.calls);
+      await withApp(stub, async app => {
+        for (const [requestPath, recorded] of Object.entries(fixture.responses)) {
+          const actual = await app.get(requestPath);
+          assert.deepEqual(actual, recorded, `GET ${requestPath} differs from the recording`);
+
+          const isProof = requestPath.startsWith('/api/proof-kenny/') || /^\/api\/proof\/[0-9a-f]{64}\?/.test(requestPath);
+          if (isProof && actual.status === 200) {
+            assert.equal((actual.body as { verified?: boolean }).verified, true, `GET ${requestPath} returned an unverified proof`);
+          }
+        }
+        assert.deepEqual(stub.unrecorded, [], 'The service made node calls the fixture does not have');
+      });
+    });
+  }
+});
+
+// Arguments of the working was-segwit-tx-mined-compact call, from friedger-test/input-values.clar
+// (the header in full from friedger-test/input-failed.clar)
+const FRIEDGER_ARGS = {
+  height: 906982,
+  header: '0x0000a027bb65de392fa35814b07cf8eff54beb4e37ef01f36f0401000000000000000000e7efa0cae9606614666a05f7a3b0334ba38f769f23111f991da6fbd850d2933c9c4f8268a63a0217b0124258',
+  'tx-index': 3428,
+  'tree-depth': 12,
+  wproof: [
+    '80dcb39ac81d07b650eaf80a932da0e49ad689558ab8190af177b9f6b557f81a',
+    'a88e1121ae5255ab725dfd3d4043df5780a806aac4d9eca4707c3d069beaf741',
+    'b07b12cbffcff42538e45d75473271cf21eebc07c21dccd8aa242dd955cfe454',
+    '547c8b6fd938c7c187bde19ba846f952be75e90ac8bc472e8e7e871cd2241865',
+    'e45f59841e82bc57447f8f93eef017fb9209d6ec0a83448d4b7b60b9ee15d9db',
+    '5e4afe646f9a3fa123bf054eb046b65ba21f12c21a018b55cc4186dc22981b21',
+    'f4e47b421bc0d2725326cd9d8fd846bf07fbd54dc4ab45233f8df21c361a8558',
+    '37dea2c4b7d0f798070985ada2b6e83b0b20424727257ad00cb851dda673632b',
+    '63a5d6233b8f405f03f341c0d77eed553876c98a2a3ed739e05f9952e6ea77ac',
+    'cae7527b8556e3344e44e1d661060c2e9228e26e3012c64bc89d0ffea1457204',
+    '8efdd65315a68b1da6be1e1f9501e44ab051d3adf98b20d73ad186edf105fd5f',
+    '725308cf058490213c1e37f2e4f883e247fde5b2458f72f61353b26a2956e66a'
+  ].map(hash => `0x${hash}`),
+  'witness-merkle-root': '0xe18fcc4bc6177bef5c1c1b1fc1f1b46a19571381b2d0729c2648edb7d252a456',
+  'witness-reserved-value': `0x${'00'.repeat(32)}`,
+  cproof: [
+    '375ed3abf75e109348c525360956a3887500f9348397830a32c5808ca2ed9169',
+    'e8323f767621b6cc2e88ee568ed00ebf790cc34459fc2a7a5b771618742c4a39',
+    '170e3ba6777c5eeb2e0da54bbad74b19a6d77f24f009316164865327bc9dc5f0',
+    '775325ef1bd0267641af1a8b21a95a1d50d82f06bb5749e2d91bedc9cedcb2c7',
+    '22041eb1f3dacb6811562d0e5d2a6888175ba5f5f54ef81151b8c07f8c43fdc6',
+    '88b86f0c96c8cde3a6a6d74c556d129a1a6c319847bc28922a060c6ddb1665c3',
+    '5a2c6f0bb36ca17a83b9697ae1f25f0a96b03d8a53b06c33cf2849a24a266acf',
+    '742a4d751d77fe1aad835c7a8c34a6a2d7bc0fef202b2affa516aea47550cd90',
+    'c0516681bf8b726e5ca7662ff22074d747ddaafeb6bb702101eab50b7c998c07',
+    'b00d4b0928181b48593f3b92678106b5a94b26e93d5cca2507221d1078102234',
+    'c8e0d0ff3758286be5f59c8a1dcc398e0372a57cb069f12abf4a70243c5dfb68',
+    '7c1739c8100c9c942511c9c7c510b9caa624593e71daf5850c31e85ac0cb8c3e'
+  ].map(hash => `0x${hash}`)
+};
+
+// Witness data with the stack item count and CompactSize lengths the failed call lacked
+const FRIEDGER_WITNESS_DATA_PREFIX = '0x024730440220704c48e3c46f6d1b663ba202f7395af2b647266e126be5b0d98855cf62a35b9802206ff5c6ecd822d8a782a8';
+
+// Mainnet data cannot be built by hand, so this runs once the fixture has been recorded
+describe('Friedger regression', () => {
+  const fixture = loadFixture(FRIEDGER_FIXTURE);
+  const skip = fixture ? false : `${FRIEDGER_FIXTURE} is not recorded: npm run record-fixture -- ${FRIEDGER_FIXTURE} ${FRIEDGER_TXID}`;
+
+  test('Clarity arguments match the call that passed on Stacks', { skip }, async () => {
+    await withApp(new StubBitcoind(fixture!.calls), async app => {
+      const { status, body } = await app.get(`/api/proof/${FRIEDGER_TXID}/clarity-args?form=tuple`);
+      assert.equal(status, 200);
+      const args = argValues(body);
+
+      for (const [name, expected] of Object.entries(FRIEDGER_ARGS)) {
+        assert.deepEqual(args[name], expected, `${name} differs from friedger-test/input-values.clar`);
+      }
+      assert.ok(String(args['witness-data']).startsWith(FRIEDGER_WITNESS_DATA_PREFIX), 'witness-data is not serialized as in friedger-test/input-values.clar');
+    });
+  });
+});
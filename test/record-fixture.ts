@@ -0,0 +1,51 @@
+// Records a fixture from a real node:
+//   npm run record-fixture -- <name> <txid> ["description"]
+// The node is the one RPC_* (or .env) points at; it needs txindex for transactions outside
+// the wallet. The service runs against a recording proxy in front of the node, every
+// request in fixtureRequests() is made once, and the node's replies and the service's
+// responses are written to test/fixtures/<name>.json.gz.
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { BitcoinRpcClient, getRpcConfig } from '../src/rpc.js';
+import { startApp } from './support/app.js';
+import { Fixture, fixtureRequests, saveFixture } from './support/fixtures.js';
+import { StubBitcoind } from './support/stub-bitcoind.js';
+
+dotenv.config();
+
+async function main() {
+  const [name, txid, description = ''] = process.argv.slice(2);
+  if (!name || !/^[a-z0-9-]+$/.test(name) || !/^[0-9a-f]{64}$/.test(txid ?? '')) {
+    console.error('Usage: npm run record-fixture -- <name> <txid> ["description"]');
+    console.error('  name: lowercase letters, digits and dashes; txid: 64 lowercase hex characters');
+    process.exit(1);
+  }
+
+  const upstream = new BitcoinRpcClient(getRpcConfig());
+  console.log(`📼 [RECORD] Recording ${name} (${txid}) from the node at ${upstream.config.url}`);
+  const proxy = new StubBitcoind({}, upstream);
+  await proxy.start();
+
+  const app = await startApp(proxy.port).catch(async error => {
+    await proxy.stop();
+    throw error;
+  });
+  const responses: Fixture['responses'] = {};
+  try {
+    for (const requestPath of fixtureRequests(txid)) {
+      responses[requestPath] = await app.get(requestPath);
+      console.log(`📼 [RECORD] ${responses[requestPath].status} GET ${requestPath}`);
+    }
+  } finally {
+    await app.stop();
+    await proxy.stop();
+  }
+
+  const file = saveFixture({ name, description, txid, recordedAt: new Date().toISOString(), calls: proxy.calls, responses });
+  console.log(`✅ [RECORD] ${Object.keys(proxy.calls).length} node replies and ${Object.keys(responses).length} responses written to ${file} (${fs.statSync(file).size} bytes)`);
+}
+
+main().catch(error => {
+  console.error('❌ [RECORD] Recording failed:', error);
+  process.exit(1);
+});
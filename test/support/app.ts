@@ -0,0 +1,107 @@
+import { ChildProcess, spawn } from 'child_process';
+import net from 'net';
+import fetch from 'node-fetch';
+import path from 'path';
+import { ROOT, RecordedResponse, normalize } from './fixtures.js';
+
+const SERVER = path.join(ROOT, 'build', 'src', 'server.js');
+// clarity-bitcoin-client needs the same loader as in production (see README.md)
+const LOADER = path.join(ROOT, 'loader.mjs');
+const API_KEY = 'fixture-test-key';
+const STARTUP_TIMEOUT_MS = 30000;
+
+// The service, built from this tree, in a child process against the stub node
+export interface RunningApp {
+  url: string;
+  get(requestPath: string): Promise<RecordedResponse>;
+  // Output of the child process, for failure messages
+  logs(): string;
+  stop(): Promise<void>;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export async function startApp(rpcPort: number): Promise<RunningApp> {
+  const port = await freePort();
+  const url = `http://127.0.0.1:${port}`;
+  // Only what the test sets: a developer's .env or shell must not change the replay
+  const env: NodeJS.ProcessEnv = {
+    PATH: process.env.PATH,
+    PORT: String(port),
+    RPC_HOST: '127.0.0.1',
+    RPC_PORT: String(rpcPort),
+    RPC_USER: 'fixture',
+    RPC_PASS: 'fixture',
+    RPC_RETRIES: '0',
+    API_KEY,
+    STATE_STORE: 'memory',
+    REORG_CHECK_INTERVAL_MS: '0',
+    WEBHOOK_POLL_INTERVAL_MS: '0',
+    STYX_SCAN_INTERVAL_MS: '0'
+  };
+
+  let output = '';
+  // Outside the repository root, so dotenv finds no .env
+  const child: ChildProcess = spawn(process.execPath, ['--loader', LOADER, SERVER], { env, cwd: path.dirname(SERVER), stdio: ['ignore', 'pipe', 'pipe'] });
+  child.stdout!.on('data', chunk => output += chunk);
+  child.stderr!.on('data', chunk => output += chunk);
+  let exited = false;
+  child.on('exit', () => exited = true);
+
+  const app: RunningApp = {
+    url,
+    async get(requestPath) {
+      const response = await fetch(`${url}${requestPath}`, { headers: { 'x-api-key': API_KEY } });
+      const text = await response.text();
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Plain text endpoints
+      }
+      return { status: response.status, body: normalize(body) };
+    },
+    logs: () => output,
+    stop() {
+      if (exited) {
+        return Promise.resolve();
+      }
+      return new Promise(resolve => {
+        child.once('exit', () => resolve());
+        child.kill();
+      });
+    }
+  };
+
+  // Ready once the network is detected, i.e. getblockchaininfo was answered
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (exited) {
+      throw new Error(`Service exited during startup:\n${output}`);
+    }
+    try {
+      const health = await (await fetch(`${url}/health`)).json() as { networks: Array<{ detected: boolean }> };
+      if (health.networks.every(item => item.detected)) {
+        return app;
+      }
+    } catch {
+      // Not listening yet
+    }
+    await sleep(100);
+  }
+  await app.stop();
+  throw new Error(`Service did not detect the stub node within ${STARTUP_TIMEOUT_MS}ms:\n${output}`);
+}
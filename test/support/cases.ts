@@ -0,0 +1,85 @@
+import { txidToInternal } from '../../src/merkle.js';
+import { ParsedTransaction, TxOutput, computeTxid } from '../../src/tx.js';
+import { Outpoint, SyntheticChain, scripts } from './chain.js';
+
+export interface SyntheticCase {
+  name: string;
+  description: string;
+  txid: string;
+  // Whether the proof is for was-segwit-tx-mined-compact
+  segwit: boolean;
+}
+
+// The P2WPKH witness of the Friedger transaction (a54f313f...f64f): signature, then public key
+export const FRIEDGER_WITNESS = [
+  '30440220704c48e3c46f6d1b663ba202f7395af2b647266e126be5b0d98855cf62a35b9802206ff5c6ecd822d8a782a895fab162fcfa392af4a0c915045afaa84aa30f8e9b8c01',
+  '03f64b159b714d55ff027265c25a1a76daba8fec4cf2fa4daa424aebd4c36fb600'
+];
+
+const bytes = (length: number, fill: number) => Buffer.alloc(length, fill);
+const hex = (length: number, fill: number) => bytes(length, fill).toString('hex');
+
+function spend(from: Outpoint, outputs: TxOutput[], options: { version?: number; scriptSig?: Buffer; witness?: Buffer[]; sequence?: number; locktime?: number } = {}): ParsedTransaction {
+  const witness = options.witness ?? [];
+  return {
+    version: options.version ?? 2,
+    inputs: [{ hash: txidToInternal(from.txid), index: from.vout, scriptSig: options.scriptSig ?? Buffer.alloc(0), sequence: options.sequence ?? 0xfffffffd, witness }],
+    outputs,
+    locktime: options.locktime ?? 0,
+    segwit: witness.length > 0
+  };
+}
+
+// A push of `data` in a script
+const push = (data: Buffer) => Buffer.concat([Buffer.from([data.length]), data]);
+
+// Taproot leaf: a 520-byte data push dropped, then a key check. Large enough that its
+// witness item takes a three-byte CompactSize length.
+const TAPSCRIPT = Buffer.concat([Buffer.from('4d0802', 'hex'), bytes(520, 0xab), Buffer.from('7520', 'hex'), bytes(32, 0x5c), Buffer.from('ac', 'hex')]);
+
+const FILLERS = 5;
+
+// Block 100 funds every case without a witness commitment; block 101 spends the outputs in a
+// segwit block of eleven transactions (an odd count, so the last one pairs with itself);
+// block 102 is the tip.
+function build() {
+  const chain = new SyntheticChain(100);
+
+  const funding: ParsedTransaction = spend({ txid: hex(32, 0x11), vout: 0 }, [
+    { value: 10_000_000n, scriptPubKey: scripts.p2pkh(hex(20, 0x21)) },
+    { value: 12_345_678n, scriptPubKey: scripts.p2wpkh(hex(20, 0x22)) },
+    { value: 20_000_001n, scriptPubKey: scripts.p2tr(hex(32, 0x23)) },
+    { value: 30_000_003n, scriptPubKey: scripts.p2tr(hex(32, 0x24)) },
+    { value: 9_999_999n, scriptPubKey: scripts.p2wpkh(hex(20, 0x25)) },
+    ...Array.from({ length: FILLERS }, (_, index) => ({ value: 1_000_000n + BigInt(index), scriptPubKey: scripts.p2pkh(hex(20, 0x30 + index)) }))
+  ], { version: 1, scriptSig: Buffer.concat([push(bytes(71, 0x41)), push(bytes(33, 0x02))]), sequence: 0xffffffff });
+  const fundingTxid = computeTxid(funding);
+  const output = (vout: number) => ({ txid: fundingTxid, vout });
+  const payTo = (value: bigint, fill: number) => [{ value, scriptPubKey: scripts.p2wpkh(hex(20, fill)) }];
+
+  const legacy = spend(output(0), payTo(9_990_000n, 0x51), { version: 1, scriptSig: Buffer.concat([push(bytes(72, 0x42)), push(bytes(33, 0x03))]), sequence: 0xffffffff });
+  const p2wpkh = spend(output(1), payTo(12_340_000n, 0x52), { witness: FRIEDGER_WITNESS.map(item => Buffer.from(item, 'hex')) });
+  const p2trKeyPath = spend(output(2), payTo(19_990_000n, 0x53), { witness: [bytes(64, 0x61)] });
+  const p2trScriptPath = spend(output(3), payTo(29_990_000n, 0x54), {
+    witness: [bytes(64, 0x62), TAPSCRIPT, Buffer.concat([Buffer.from([0xc0]), bytes(32, 0x63)])],
+    locktime: 100
+  });
+  const v3 = spend(output(4), payTo(9_990_000n, 0x55), { version: 3, witness: [bytes(71, 0x64), bytes(33, 0x02)], sequence: 0xffffffff });
+  const fillers = Array.from({ length: FILLERS }, (_, index) => spend(output(5 + index), payTo(990_000n, 0x70 + index)));
+
+  chain.addBlock([funding], { witnessCommitment: false });
+  chain.addBlock([legacy, p2wpkh, fillers[0], fillers[1], p2trKeyPath, fillers[2], p2trScriptPath, fillers[3], fillers[4], v3]);
+  chain.addBlock([]);
+
+  const cases: SyntheticCase[] = [
+    { name: 'legacy', description: 'Transaction without witness data, proven with was-tx-mined-compact', txid: computeTxid(legacy), segwit: false },
+    { name: 'no-witness-commitment', description: 'Transaction in a block without a witness commitment', txid: fundingTxid, segwit: false },
+    { name: 'p2wpkh', description: 'P2WPKH spend with the Friedger witness', txid: computeTxid(p2wpkh), segwit: true },
+    { name: 'p2tr-key-path', description: 'Taproot key path spend', txid: computeTxid(p2trKeyPath), segwit: true },
+    { name: 'p2tr-script-path', description: 'Taproot script path spend with a large witness', txid: computeTxid(p2trScriptPath), segwit: true },
+    { name: 'v3', description: 'Version 3 transaction, last in a block with an odd transaction count', txid: computeTxid(v3), segwit: true }
+  ];
+  return { chain, cases };
+}
+
+export const { chain: CASE_CHAIN, cases: SYNTHETIC_CASES } = build();
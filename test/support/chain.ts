@@ -0,0 +1,282 @@
+import { buildMerkleTree, internalToTxid, merkleRoot, sha256d, txidToInternal } from '../../src/merkle.js';
+import { BlockHeaderInfo, RPC_ERROR_CODES, RawTransaction, RpcError, RpcRequest, RpcSettledResult, ScriptPubKey } from '../../src/rpc.js';
+import { ParsedTransaction, compactSize, computeTxid, computeWtxid, serializeTransaction, uint32LE } from '../../src/tx.js';
+
+export interface ChainBlock {
+  hash: string;
+  height: number;
+  header: string;
+  time: number;
+  txs: ParsedTransaction[];
+  // Display order, coinbase first
+  txids: string[];
+  wtxids: string[];
+  hasWitnessCommitment: boolean;
+}
+
+export interface Outpoint {
+  txid: string;
+  vout: number;
+}
+
+const WITNESS_COMMITMENT_PREFIX = '6a24aa21a9ed';
+const RESERVED_VALUE = Buffer.alloc(32);
+const GENESIS_TIME = 1700000000;
+
+const script = (hex: string) => Buffer.from(hex, 'hex');
+
+export const scripts = {
+  p2pkh: (hash: string) => script(`76a914${hash}88ac`),
+  p2wpkh: (hash: string) => script(`0014${hash}`),
+  p2tr: (key: string) => script(`5120${key}`)
+};
+
+function scriptType(scriptPubKey: Buffer): string {
+  const hex = scriptPubKey.toString('hex');
+  if (/^76a914[0-9a-f]{40}88ac$/.test(hex)) {
+    return 'pubkeyhash';
+  }
+  if (/^0014[0-9a-f]{40}$/.test(hex)) {
+    return 'witness_v0_keyhash';
+  }
+  if (/^5120[0-9a-f]{64}$/.test(hex)) {
+    return 'witness_v1_taproot';
+  }
+  return hex.startsWith('6a') ? 'nulldata' : 'nonstandard';
+}
+
+function scriptPubKeyJson(scriptPubKey: Buffer): ScriptPubKey {
+  return { asm: '', hex: scriptPubKey.toString('hex'), type: scriptType(scriptPubKey) };
+}
+
+// Amounts as the node prints them, in BTC
+const btc = (sats: bigint) => Number(sats) / 1e8;
+
+// A hand-built regtest chain that answers the RPC calls the service makes, so the proofs it
+// returns can be checked against blocks whose every byte is known. Headers are not mined;
+// nothing in the service checks proof of work.
+export class SyntheticChain {
+  readonly blocks: ChainBlock[] = [];
+
+  constructor(private readonly startHeight = 100) {}
+
+  get tip(): ChainBlock {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  // Appends a block of `txs` after a coinbase; segwit blocks carry a BIP141 witness commitment
+  addBlock(txs: ParsedTransaction[], options: { witnessCommitment?: boolean } = {}): ChainBlock {
+    const height = this.blocks.length === 0 ? this.startHeight : this.tip.height + 1;
+    const hasWitnessCommitment = options.witnessCommitment ?? true;
+
+    const coinbase: ParsedTransaction = {
+      version: 2,
+      inputs: [{
+        hash: Buffer.alloc(32),
+        index: 0xffffffff,
+        // BIP34 height push
+        scriptSig: Buffer.concat([Buffer.from([0x03]), uint32LE(height).subarray(0, 3), script('00')]),
+        sequence: 0xffffffff,
+        witness: hasWitnessCommitment ? [RESERVED_VALUE] : []
+      }],
+      outputs: [{ value: 5000000000n, scriptPubKey: scripts.p2wpkh('00'.repeat(20)) }],
+      locktime: 0,
+      segwit: hasWitnessCommitment
+    };
+    if (hasWitnessCommitment) {
+      const wtxids = [Buffer.alloc(32), ...txs.map(tx => txidToInternal(computeWtxid(tx)))];
+      const root = merkleRoot(buildMerkleTree(wtxids));
+      const commitment = sha256d(Buffer.concat([root, RESERVED_VALUE])).toString('hex');
+      coinbase.outputs.push({ value: 0n, scriptPubKey: script(`${WITNESS_COMMITMENT_PREFIX}${commitment}`) });
+    }
+
+    const all = [coinbase, ...txs];
+    const txids = all.map(computeTxid);
+    const time = GENESIS_TIME + height * 600;
+    const header = Buffer.concat([
+      uint32LE(0x20000000),
+      this.blocks.length === 0 ? Buffer.alloc(32) : txidToInternal(this.tip.hash),
+      merkleRoot(buildMerkleTree(txids.map(txidToInternal))),
+      uint32LE(time),
+      uint32LE(0x207fffff),
+      uint32LE(0)
+    ]);
+
+    const block: ChainBlock = {
+      hash: internalToTxid(sha256d(header)),
+      height,
+      header: header.toString('hex'),
+      time,
+      txs: all,
+      txids,
+      wtxids: all.map(computeWtxid),
+      hasWitnessCommitment
+    };
+    this.blocks.push(block);
+    return block;
+  }
+
+  find(txid: string): { block: ChainBlock; index: number; tx: ParsedTransaction } | undefined {
+    for (const block of this.blocks) {
+      const index = block.txids.indexOf(txid);
+      if (index !== -1) {
+        return { block, index, tx: block.txs[index] };
+      }
+    }
+    return undefined;
+  }
+
+  // Stands in for the node behind StubBitcoind
+  async batchSettled(requests: RpcRequest[]): Promise<RpcSettledResult[]> {
+    return requests.map(request => {
+      try {
+        return { ok: true, result: this.answer(request.method, request.params ?? []) };
+      } catch (error) {
+        if (error instanceof RpcError) {
+          return { ok: false, error };
+        }
+        throw error;
+      }
+    });
+  }
+
+  // One call answered as the node would; node errors are thrown as RpcError
+  answer(method: string, params: unknown[] = []): unknown {
+    switch (method) {
+      case 'getblockchaininfo':
+        return { chain: 'regtest', blocks: this.tip.height, headers: this.tip.height, bestblockhash: this.tip.hash, initialblockdownload: false, verificationprogress: 1 };
+      case 'getblockcount':
+        return this.tip.height;
+      case 'getbestblockhash':
+        return this.tip.hash;
+      case 'getblockhash': {
+        const block = this.blocks.find(item => item.height === params[0]);
+        if (!block) {
+          throw new RpcError(RPC_ERROR_CODES.INVALID_PARAMETER, 'Block height out of range', method);
+        }
+        return block.hash;
+      }
+      case 'getblockheader': {
+        const block = this.block(params[0], method);
+        return params[1] === false ? block.header : this.headerJson(block);
+      }
+      case 'getblock': {
+        const block = this.block(params[0], method);
+        const verbosity = params[1] ?? 1;
+        if (verbosity === 0) {
+          return Buffer.concat([
+            Buffer.from(block.header, 'hex'),
+            compactSize(block.txs.length),
+            ...block.txs.map(tx => serializeTransaction(tx))
+          ]).toString('hex');
+        }
+        const sizes = block.txs.map(tx => this.sizes(tx));
+        return {
+          ...this.headerJson(block),
+          size: 80 + sizes.reduce((sum, item) => sum + item.size, 1),
+          strippedsize: 80 + sizes.reduce((sum, item) => sum + item.strippedSize, 1),
+          weight: 320 + sizes.reduce((sum, item) => sum + item.weight, 4),
+          tx: verbosity === 1 ? block.txids : block.txs.map((tx, index) => this.transactionJson(block, index, verbosity === 3))
+        };
+      }
+      case 'getrawtransaction': {
+        const [txid, verbosity = 0, blockhash] = params;
+        const found = this.find(String(txid));
+        if (!found || (blockhash !== undefined && found.block.hash !== blockhash)) {
+          throw new RpcError(RPC_ERROR_CODES.INVALID_ADDRESS_OR_KEY, blockhash !== undefined
+            ? 'No such transaction found in the provided block. Use gettransaction for wallet transactions.'
+            : 'No such mempool or blockchain transaction. Use gettransaction for wallet transactions.', method);
+        }
+        if (verbosity === false || verbosity === 0) {
+          return serializeTransaction(found.tx).toString('hex');
+        }
+        return this.transactionJson(found.block, found.index, verbosity === 2);
+      }
+      default:
+        throw new RpcError(RPC_ERROR_CODES.METHOD_NOT_FOUND, 'Method not found', method);
+    }
+  }
+
+  private block(hash: unknown, method: string): ChainBlock {
+    const block = this.blocks.find(item => item.hash === hash);
+    if (!block) {
+      throw new RpcError(RPC_ERROR_CODES.INVALID_ADDRESS_OR_KEY, 'Block not found', method);
+    }
+    return block;
+  }
+
+  private headerJson(block: ChainBlock): BlockHeaderInfo {
+    const position = this.blocks.indexOf(block);
+    return {
+      hash: block.hash,
+      confirmations: this.tip.height - block.height + 1,
+      height: block.height,
+      version: 0x20000000,
+      versionHex: '20000000',
+      merkleroot: internalToTxid(Buffer.from(block.header, 'hex').subarray(36, 68)),
+      time: block.time,
+      mediantime: block.time,
+      nonce: 0,
+      bits: '207fffff',
+      difficulty: 4.656542373906925e-10,
+      chainwork: (block.height * 2 + 2).toString(16).padStart(64, '0'),
+      nTx: block.txs.length,
+      ...(position > 0 ? { previousblockhash: this.blocks[position - 1].hash } : {}),
+      ...(position < this.blocks.length - 1 ? { nextblockhash: this.blocks[position + 1].hash } : {})
+    };
+  }
+
+  private sizes(tx: ParsedTransaction) {
+    const size = serializeTransaction(tx).length;
+    const strippedSize = serializeTransaction(tx, { witness: false }).length;
+    const weight = strippedSize * 3 + size;
+    return { size, strippedSize, weight, vsize: Math.ceil(weight / 4) };
+  }
+
+  // getrawtransaction's verbose JSON; with prevouts as at verbosity 2 (getblock verbosity 3)
+  private transactionJson(block: ChainBlock, index: number, withPrevouts: boolean): RawTransaction {
+    const tx = block.txs[index];
+    const { size, vsize, weight } = this.sizes(tx);
+    let fee = 0n;
+    const vin = tx.inputs.map(input => {
+      const witness = input.witness.length > 0 ? { txinwitness: input.witness.map(item => item.toString('hex')) } : {};
+      if (index === 0) {
+        return { coinbase: input.scriptSig.toString('hex'), ...witness, sequence: input.sequence };
+      }
+      const txid = internalToTxid(input.hash);
+      const spent = this.find(txid);
+      const output = spent?.tx.outputs[input.index];
+      fee += output?.value ?? 0n;
+      return {
+        txid,
+        vout: input.index,
+        scriptSig: { asm: '', hex: input.scriptSig.toString('hex') },
+        ...witness,
+        ...(withPrevouts && spent && output ? {
+          prevout: { generated: spent.index === 0, height: spent.block.height, value: btc(output.value), scriptPubKey: scriptPubKeyJson(output.scriptPubKey) }
+        } : {}),
+        sequence: input.sequence
+      };
+    });
+    fee -= tx.outputs.reduce((sum, output) => sum + output.value, 0n);
+    const complete = index > 0 && tx.inputs.every(input => this.find(internalToTxid(input.hash)));
+
+    return {
+      txid: block.txids[index],
+      hash: block.wtxids[index],
+      version: tx.version,
+      size,
+      vsize,
+      weight,
+      locktime: tx.locktime,
+      vin,
+      vout: tx.outputs.map((output, n) => ({ value: btc(output.value), n, scriptPubKey: scriptPubKeyJson(output.scriptPubKey) })),
+      ...(withPrevouts && complete ? { fee: btc(fee) } : {}),
+      hex: serializeTransaction(tx).toString('hex'),
+      blockhash: block.hash,
+      confirmations: this.tip.height - block.height + 1,
+      time: block.time,
+      blocktime: block.time
+    };
+  }
+}
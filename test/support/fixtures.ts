@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { fileURLToPath } from 'url';
+
+// Repository root, from build/test/support once compiled
+export const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../..');
+export const FIXTURES_DIR = path.join(ROOT, 'test', 'fixtures');
+
+export type RecordedReply =
+  | { result: unknown }
+  | { error: { code: number; message: string } };
+
+export interface RecordedResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface Fixture {
+  name: string;
+  description: string;
+  txid: string;
+  recordedAt: string;
+  // Node replies by callKey()
+  calls: Record<string, RecordedReply>;
+  // normalize()d API responses at recording time, by request path
+  responses: Record<string, RecordedResponse>;
+}
+
+export function callKey(method: string, params: unknown): string {
+  return `${method} ${JSON.stringify(params ?? [])}`;
+}
+
+// The API requests recorded and replayed for every fixture
+export function fixtureRequests(txid: string): string[] {
+  return [
+    `/api/proof/${txid}?provider=native`,
+    `/api/proof/${txid}?provider=clarity-bitcoin-client`,
+    `/api/proof/${txid}?provider=bitcoin-tx-proof`,
+    `/api/proof-kenny/${txid}`,
+    `/api/proof/${txid}/clarity-args`,
+    `/api/proof/${txid}/clarity-args?form=tuple`,
+    `/api/tx/${txid}`
+  ];
+}
+
+// Drops fields that differ between runs (timings, timestamps)
+export function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== 'durationMs' && key !== 'timestamp')
+        .map(([key, item]) => [key, normalize(item)])
+    );
+  }
+  return value;
+}
+
+export function fixturePath(name: string): string {
+  return path.join(FIXTURES_DIR, `${name}.json.gz`);
+}
+
+// Undefined when the fixture has not been recorded
+export function loadFixture(name: string): Fixture | undefined {
+  const file = fixturePath(name);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(zlib.gunzipSync(fs.readFileSync(file)).toString('utf8')) as Fixture;
+}
+
+// Gzipped: recorded getblock replies of full blocks run to several megabytes
+export function saveFixture(fixture: Fixture): string {
+  const file = fixturePath(fixture.name);
+  fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+  fs.writeFileSync(file, zlib.gzipSync(JSON.stringify(fixture, null, 1)));
+  return file;
+}
@@ -0,0 +1,88 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { BitcoinRpcClient } from '../../src/rpc.js';
+import { RecordedReply, callKey } from './fixtures.js';
+
+interface RpcRequestBody {
+  id?: unknown;
+  method: string;
+  params?: unknown[];
+}
+
+// A bitcoind stand-in on a local port. Replaying, it answers from recorded replies and
+// fails calls that were not recorded; recording, it forwards every call to a real node
+// (or a SyntheticChain) and keeps the replies.
+export class StubBitcoind {
+  readonly calls: Record<string, RecordedReply>;
+  // Calls answered with "not recorded" while replaying
+  readonly unrecorded: string[] = [];
+  private server?: http.Server;
+
+  constructor(calls: Record<string, RecordedReply> = {}, private readonly upstream?: Pick<BitcoinRpcClient, 'batchSettled'>) {
+    this.calls = { ...calls };
+  }
+
+  get port(): number {
+    return (this.server!.address() as AddressInfo).port;
+  }
+
+  start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        this.handle(body).then(
+          reply => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(reply));
+          },
+          error => {
+            res.writeHead(500, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ result: null, error: { code: -1, message: error instanceof Error ? error.message : String(error) }, id: null }));
+          }
+        );
+      });
+    });
+    return new Promise(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+  }
+
+  private async handle(body: string): Promise<unknown> {
+    const parsed = JSON.parse(body) as RpcRequestBody | RpcRequestBody[];
+    const requests = Array.isArray(parsed) ? parsed : [parsed];
+    const replies = this.upstream ? await this.forward(requests) : requests.map(request => this.replay(request));
+    const answers = requests.map((request, index) => {
+      const reply = replies[index];
+      return 'error' in reply
+        ? { result: null, error: reply.error, id: request.id ?? null }
+        : { result: reply.result, error: null, id: request.id ?? null };
+    });
+    return Array.isArray(parsed) ? answers : answers[0];
+  }
+
+  private replay(request: RpcRequestBody): RecordedReply {
+    const key = callKey(request.method, request.params);
+    const recorded = this.calls[key];
+    if (recorded) {
+      return recorded;
+    }
+    this.unrecorded.push(key);
+    // -32601 is bitcoind's "Method not found"
+    return { error: { code: -32601, message: `Not recorded: ${key} (record the fixture again)` } };
+  }
+
+  // Transport failures throw and are answered with a 500, they are not node replies
+  private async forward(requests: RpcRequestBody[]): Promise<RecordedReply[]> {
+    const settled = await this.upstream!.batchSettled(requests.map(request => ({ method: request.method, params: request.params ?? [] })));
+    return settled.map((item, index) => {
+      const reply: RecordedReply = item.ok
+        ? { result: item.result }
+        : { error: { code: item.error.code, message: item.error.message } };
+      this.calls[callKey(requests[index].method, requests[index].params)] = reply;
+      return reply;
+    });
+  }
+}
@@ -0,0 +1,109 @@
+import assert from 'assert/strict';
+import { describe, test } from 'node:test';
+import { RawTransaction } from '../src/rpc.js';
+import {
+  ParsedTransaction,
+  computeTxid,
+  computeWtxid,
+  parseTransaction,
+  serializeTransaction,
+  serializeWitness,
+  strippedHex,
+  transactionFromRpc
+} from '../src/tx.js';
+import { CASE_CHAIN, FRIEDGER_WITNESS, SYNTHETIC_CASES } from './support/cases.js';
+
+// The coinbase of the mainnet genesis block
+const GENESIS_COINBASE = {
+  txid: '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b',
+  hex: '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000'
+};
+
+const caseTx = (name: string) => CASE_CHAIN.find(SYNTHETIC_CASES.find(item => item.name === name)!.txid)!.tx;
+
+// A transaction without inputs paying `value` sats to OP_TRUE
+function withoutInputs(value: bigint): ParsedTransaction {
+  return {
+    version: 2,
+    inputs: [],
+    outputs: [{ value, scriptPubKey: Buffer.from('51', 'hex') }],
+    locktime: 0,
+    segwit: false
+  };
+}
+
+describe('parseTransaction', () => {
+  test('parses a mainnet transaction and serializes it back', () => {
+    const tx = parseTransaction(GENESIS_COINBASE.hex);
+    assert.equal(tx.segwit, false);
+    assert.equal(tx.version, 1);
+    assert.equal(tx.outputs[0].value, 5000000000n);
+    assert.equal(computeTxid(tx), GENESIS_COINBASE.txid);
+    assert.equal(computeWtxid(tx), GENESIS_COINBASE.txid);
+    assert.equal(serializeTransaction(tx).toString('hex'), GENESIS_COINBASE.hex);
+    assert.deepEqual(parseTransaction(`0x${GENESIS_COINBASE.hex}`), tx);
+  });
+
+  for (const item of SYNTHETIC_CASES) {
+    test(`round-trips the ${item.name} transaction`, () => {
+      const hex = serializeTransaction(caseTx(item.name)).toString('hex');
+      const tx = parseTransaction(hex);
+      assert.equal(tx.segwit, item.segwit);
+      assert.equal(serializeTransaction(tx).toString('hex'), hex);
+      assert.equal(computeTxid(tx), item.txid);
+
+      // Without the witness: the same txid, no witness marker
+      const stripped = parseTransaction(strippedHex(tx));
+      assert.equal(stripped.segwit, false);
+      assert.equal(computeTxid(stripped), item.txid);
+      assert.equal(computeWtxid(stripped) === computeWtxid(tx), !item.segwit);
+    });
+  }
+
+  test('serializes witness data as the segwit Clarity functions take it', () => {
+    assert.equal(serializeWitness(caseTx('p2wpkh')).toString('hex'), `0247${FRIEDGER_WITNESS[0]}21${FRIEDGER_WITNESS[1]}`);
+    // The tapscript is 558 bytes, so its length takes a three-byte CompactSize
+    assert.match(serializeWitness(caseTx('p2tr-script-path')).toString('hex'), /^0340[0-9a-f]{128}fd2e02/);
+  });
+
+  test('keeps versions with the top bit set as their 32 bits', () => {
+    const hex = `ffffffff${GENESIS_COINBASE.hex.slice(8)}`;
+    const tx = parseTransaction(hex);
+    assert.equal(serializeTransaction(tx).toString('hex'), hex);
+    // The node reports the version unsigned
+    assert.equal(serializeTransaction({ ...tx, version: 0xffffffff }).toString('hex'), hex);
+    assert.equal(serializeTransaction({ ...tx, version: 0x80000000 }).toString('hex').slice(0, 8), '00000080');
+  });
+
+  test('rejects trailing and missing bytes', () => {
+    assert.throws(() => parseTransaction(`${GENESIS_COINBASE.hex}00`), /1 trailing bytes/);
+    assert.throws(() => parseTransaction(GENESIS_COINBASE.hex.slice(0, -2)), /Unexpected end of data/);
+  });
+
+  // Its bytes start 00 01 after the version, the same as a witness marker and flag
+  for (const value of [0n, 1000n]) {
+    test(`reads a transaction without inputs paying ${value} sats as non-witness`, () => {
+      const hex = serializeTransaction(withoutInputs(value)).toString('hex');
+      const parsed = parseTransaction(hex);
+      assert.equal(parsed.segwit, false);
+      assert.equal(parsed.inputs.length, 0);
+      assert.equal(parsed.outputs.length, 1);
+      assert.equal(parsed.outputs[0].value, value);
+      assert.equal(serializeTransaction(parsed).toString('hex'), hex);
+    });
+  }
+});
+
+describe('transactionFromRpc', () => {
+  for (const item of SYNTHETIC_CASES) {
+    test(`rebuilds the ${item.name} transaction from the node's JSON`, () => {
+      const rpcTx = CASE_CHAIN.answer('getrawtransaction', [item.txid, true]) as RawTransaction;
+      assert.equal(serializeTransaction(transactionFromRpc(rpcTx)).toString('hex'), rpcTx.hex);
+    });
+  }
+
+  test('throws when the JSON does not hash to the node\'s txid', () => {
+    const rpcTx = CASE_CHAIN.answer('getrawtransaction', [SYNTHETIC_CASES[0].txid, true]) as RawTransaction;
+    assert.throws(() => transactionFromRpc({ ...rpcTx, locktime: rpcTx.locktime + 1 }), /does not match the node/);
+  });
+});
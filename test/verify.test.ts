@@ -0,0 +1,111 @@
+import assert from 'assert/strict';
+import { describe, test } from 'node:test';
+import { NativeProof, computeNativeProof } from '../src/native-proof.js';
+import { BlockWithTransactions } from '../src/rpc.js';
+import { extractWitnessCommitment, verifyProof } from '../src/verify.js';
+import { CASE_CHAIN, SYNTHETIC_CASES } from './support/cases.js';
+
+// Mainnet genesis block: one transaction, so the tree has depth 0
+const GENESIS = {
+  hash: '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f',
+  header: '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c',
+  txid: '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b'
+};
+
+function proofOf(txid: string) {
+  const { block } = CASE_CHAIN.find(txid)!;
+  const json = CASE_CHAIN.answer('getblock', [block.hash, 2]) as BlockWithTransactions;
+  const proof = computeNativeProof(txid, json, block.header);
+  const context = { txid, txHex: proof.txHex, blockHash: block.hash, blockTxids: block.txids };
+  return { block, proof, context };
+}
+
+// The name of the first failing check
+function failure(proof: NativeProof, context: Parameters<typeof verifyProof>[1]): string | undefined {
+  const result = verifyProof(proof, context);
+  return result.verified ? undefined : result.checks.find(item => !item.ok)!.name;
+}
+
+describe('verifyProof', () => {
+  for (const item of SYNTHETIC_CASES) {
+    test(`verifies the native proof for ${item.name}`, () => {
+      const { proof, context } = proofOf(item.txid);
+      const result = verifyProof(proof, context);
+      assert.equal(result.reason, undefined);
+      assert.equal(result.verified, true);
+      assert.equal(proof.segwit, item.segwit);
+      assert.deepEqual(
+        result.checks.map(check => check.name),
+        item.segwit
+          ? ['header', 'tx-index', 'tree-depth', 'txid-path', 'coinbase-path', 'wtxid-path', 'witness-commitment']
+          : ['header', 'tx-index', 'tree-depth', 'txid-path']
+      );
+    });
+  }
+
+  test('verifies a segwit proof of the coinbase, whose wtxid is all zeros', () => {
+    const { block, proof, context } = proofOf(CASE_CHAIN.blocks[1].txids[0]);
+    assert.equal(block.hasWitnessCommitment, true);
+    assert.equal(proof.segwit, true);
+    const result = verifyProof(proof, context);
+    assert.equal(result.reason, undefined);
+    assert.equal(result.verified, true);
+  });
+
+  test('verifies a legacy proof from a block with one transaction', () => {
+    const proof = { segwit: false, header: GENESIS.header, txIndex: 0, treeDepth: 0, merkleProof: [] };
+    const result = verifyProof(proof, { txid: GENESIS.txid, txHex: '', blockHash: GENESIS.hash, blockTxids: [GENESIS.txid] });
+    assert.equal(result.reason, undefined);
+    assert.equal(result.verified, true);
+  });
+
+  describe('rejects a proof with', () => {
+    const segwit = proofOf(SYNTHETIC_CASES.find(item => item.name === 'p2tr-script-path')!.txid);
+    const legacy = proofOf(SYNTHETIC_CASES.find(item => item.name === 'legacy')!.txid);
+    const flip = (hashes: string[], index: number) => hashes.map((hash, position) => position === index ? `ff${hash.slice(2)}` : hash);
+
+    test('the header of another block', () => {
+      assert.equal(failure({ ...segwit.proof, header: CASE_CHAIN.blocks[0].header }, segwit.context), 'header');
+    });
+
+    test('the index of another transaction', () => {
+      assert.equal(failure({ ...segwit.proof, txIndex: segwit.proof.txIndex + 1 }, segwit.context), 'tx-index');
+    });
+
+    test('a wrong tree depth', () => {
+      assert.equal(failure({ ...segwit.proof, treeDepth: segwit.proof.treeDepth - 1 }, segwit.context), 'tree-depth');
+    });
+
+    test('a changed txid path', () => {
+      assert.equal(failure({ ...legacy.proof, merkleProof: flip(legacy.proof.merkleProof, 1) }, legacy.context), 'txid-path');
+      assert.equal(failure({ ...legacy.proof, merkleProof: legacy.proof.merkleProof.slice(1) }, legacy.context), 'txid-path');
+    });
+
+    test('a changed coinbase path', () => {
+      assert.equal(failure({ ...segwit.proof, coinbaseMerkleProof: flip(segwit.proof.coinbaseMerkleProof, 0) }, segwit.context), 'coinbase-path');
+    });
+
+    test('a changed witness path', () => {
+      assert.equal(failure({ ...segwit.proof, witnessMerkleProof: flip(segwit.proof.witnessMerkleProof, 2) }, segwit.context), 'wtxid-path');
+    });
+
+    test('the wrong transaction serialization', () => {
+      const stripped = { ...segwit.context, txHex: segwit.proof.txStrippedHex };
+      assert.equal(failure(segwit.proof, stripped), 'wtxid-path');
+    });
+
+    test('a reserved value the coinbase does not commit to', () => {
+      assert.equal(failure({ ...segwit.proof, witnessReservedValue: '01'.repeat(32) }, segwit.context), 'witness-commitment');
+    });
+  });
+});
+
+describe('extractWitnessCommitment', () => {
+  test('finds the commitment in a segwit coinbase and nothing in a block without one', () => {
+    const [withoutCommitment, withCommitment] = CASE_CHAIN.blocks;
+    const coinbaseHex = (txid: string) => CASE_CHAIN.answer('getrawtransaction', [txid, false]) as string;
+    assert.match(extractWitnessCommitment(coinbaseHex(withCommitment.txids[0])) ?? '', /^[0-9a-f]{64}$/);
+    assert.equal(extractWitnessCommitment(coinbaseHex(withoutCommitment.txids[0])), null);
+    assert.equal(extractWitnessCommitment('00'), null);
+  });
+});